@@ -0,0 +1,208 @@
+"use client"
+
+import { useEffect, useState, useCallback } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Skeleton } from '@/components/ui/skeleton'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { AuditEntryItem } from '@/components/audit-entry'
+import { useToast } from '@/hooks/use-toast'
+import { getAuditLog, getAuditAdmins } from '@/lib/api'
+import { AUDIT_ACTIONS, AUDIT_ACTION_LABELS } from '@/lib/audit'
+import type { AuditAction, AuditEntry } from '@/types'
+import { ChevronLeft, ChevronRight } from 'lucide-react'
+
+type AuditLog = Awaited<ReturnType<typeof getAuditLog>>
+
+export default function AuditLogPage() {
+  const [data, setData] = useState<AuditLog | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [admins, setAdmins] = useState<{ id: string; name: string; email: string }[]>([])
+
+  // Filters
+  const [page, setPage] = useState(1)
+  const [adminId, setAdminId] = useState('all')
+  const [action, setAction] = useState('all')
+  const [from, setFrom] = useState('')
+  const [to, setTo] = useState('')
+
+  const { toast } = useToast()
+
+  useEffect(() => {
+    getAuditAdmins().then((result) => setAdmins(result.admins)).catch(console.error)
+  }, [])
+
+  const loadEntries = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const result = await getAuditLog({
+        page,
+        limit: 25,
+        adminId: adminId === 'all' ? undefined : adminId,
+        action: action === 'all' ? undefined : (action as AuditAction),
+        from: from || undefined,
+        to: to || undefined,
+      })
+      setData(result)
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to load audit log',
+        variant: 'destructive',
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }, [page, adminId, action, from, to, toast])
+
+  useEffect(() => {
+    loadEntries()
+  }, [loadEntries])
+
+  const clearFilters = () => {
+    setAdminId('all')
+    setAction('all')
+    setFrom('')
+    setTo('')
+    setPage(1)
+  }
+
+  const hasFilters = adminId !== 'all' || action !== 'all' || from || to
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold">Audit Log</h1>
+        <p className="text-gray-500">Every change made by an admin, newest first</p>
+      </div>
+
+      {/* Filters */}
+      <Card>
+        <CardContent className="pt-6">
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="space-y-2">
+              <Label>Admin</Label>
+              <Select value={adminId} onValueChange={(v) => { setAdminId(v); setPage(1); }}>
+                <SelectTrigger className="w-[200px]">
+                  <SelectValue placeholder="Admin" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All admins</SelectItem>
+                  {admins.map((admin) => (
+                    <SelectItem key={admin.id} value={admin.id}>{admin.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Action</Label>
+              <Select value={action} onValueChange={(v) => { setAction(v); setPage(1); }}>
+                <SelectTrigger className="w-[220px]">
+                  <SelectValue placeholder="Action" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All actions</SelectItem>
+                  {AUDIT_ACTIONS.map((value) => (
+                    <SelectItem key={value} value={value}>{AUDIT_ACTION_LABELS[value]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="from">From</Label>
+              <Input
+                id="from"
+                type="date"
+                value={from}
+                max={to || undefined}
+                onChange={(e) => { setFrom(e.target.value); setPage(1); }}
+                className="w-[160px]"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="to">To</Label>
+              <Input
+                id="to"
+                type="date"
+                value={to}
+                min={from || undefined}
+                onChange={(e) => { setTo(e.target.value); setPage(1); }}
+                className="w-[160px]"
+              />
+            </div>
+
+            {hasFilters && (
+              <Button variant="ghost" onClick={clearFilters}>
+                Clear filters
+              </Button>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Entries</CardTitle>
+          <CardDescription>
+            {data ? `${data.pagination.total} entries found` : 'Loading...'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-4">
+              {[...Array(5)].map((_, i) => (
+                <Skeleton key={i} className="h-16 w-full" />
+              ))}
+            </div>
+          ) : data?.entries.length === 0 ? (
+            <div className="text-center py-12 text-gray-500">
+              No entries found
+            </div>
+          ) : (
+            <div className="divide-y">
+              {data?.entries.map((entry: AuditEntry) => (
+                <div key={entry.id} className="py-4 first:pt-0 last:pb-0">
+                  <AuditEntryItem entry={entry} />
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Pagination */}
+          {data && data.pagination.totalPages > 1 && (
+            <div className="flex items-center justify-between mt-6 pt-4 border-t">
+              <p className="text-sm text-gray-500">
+                Page {data.pagination.page} of {data.pagination.totalPages}
+              </p>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPage(page - 1)}
+                  disabled={page === 1}
+                >
+                  <ChevronLeft className="h-4 w-4 me-1 rtl:rotate-180" />
+                  Previous
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPage(page + 1)}
+                  disabled={page === data.pagination.totalPages}
+                >
+                  Next
+                  <ChevronRight className="h-4 w-4 ms-1 rtl:rotate-180" />
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,227 @@
+"use client"
+
+import { useEffect, useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { useToast } from '@/hooks/use-toast'
+import { getNetworks, getExternalCategories, getZones } from '@/lib/api'
+import { buildEmbedQuery, DEFAULT_EMBED_OPTIONS, type EmbedTheme } from '@/lib/embed'
+import type { Network, ExternalCategory, Region } from '@/types'
+import { Copy } from 'lucide-react'
+
+type Source = 'all' | 'network' | 'external' | 'zone'
+
+export default function EmbedWidgetPage() {
+  const [networks, setNetworks] = useState<Network[]>([])
+  const [externalCategories, setExternalCategories] = useState<ExternalCategory[]>([])
+  const [regions, setRegions] = useState<Region[]>([])
+  const [origin, setOrigin] = useState('')
+
+  const [source, setSource] = useState<Source>('all')
+  const [sourceId, setSourceId] = useState('')
+  const [theme, setTheme] = useState<EmbedTheme>(DEFAULT_EMBED_OPTIONS.theme)
+  const [accent, setAccent] = useState(`#${DEFAULT_EMBED_OPTIONS.accent}`)
+  const [rotateSeconds, setRotateSeconds] = useState(String(DEFAULT_EMBED_OPTIONS.interval))
+  const [height, setHeight] = useState('')
+
+  const { toast } = useToast()
+
+  useEffect(() => {
+    setOrigin(window.location.origin)
+    Promise.all([getNetworks(), getExternalCategories(), getZones()])
+      .then(([n, e, z]) => {
+        setNetworks(n)
+        setExternalCategories(e)
+        setRegions(z)
+      })
+      .catch(() => {
+        toast({
+          title: 'Error',
+          description: 'Failed to load networks and zones',
+          variant: 'destructive',
+        })
+      })
+  }, [toast])
+
+  const query = buildEmbedQuery({
+    networkId: source === 'network' ? sourceId : undefined,
+    externalCategoryId: source === 'external' ? sourceId : undefined,
+    zoneId: source === 'zone' ? sourceId : undefined,
+    theme,
+    accent: accent.replace(/^#/, ''),
+    interval: parseInt(rotateSeconds, 10) || 0,
+  })
+  const queryString = query.toString()
+  const embedUrl = `${origin}/embed${queryString ? `?${queryString}` : ''}`
+
+  const dataAttributes = [
+    source === 'network' && sourceId && `data-network-id="${sourceId}"`,
+    source === 'external' && sourceId && `data-external-category-id="${sourceId}"`,
+    source === 'zone' && sourceId && `data-zone-id="${sourceId}"`,
+    query.get('theme') && `data-theme="${query.get('theme')}"`,
+    query.get('accent') && `data-accent="${query.get('accent')}"`,
+    query.get('interval') && `data-interval="${query.get('interval')}"`,
+    height && `data-height="${height}px"`,
+  ].filter(Boolean).join(' ')
+
+  const scriptSnippet = `<div data-abtm-widget${dataAttributes ? ` ${dataAttributes}` : ''}></div>\n<script src="${origin}/widget.js" async></script>`
+  const iframeSnippet = `<iframe src="${embedUrl}" title="Testimonies" style="border:0;width:100%;height:${height || 320}px" loading="lazy"></iframe>`
+
+  const handleCopy = async (text: string) => {
+    try {
+      await navigator.clipboard.writeText(text)
+      toast({ title: 'Copied', description: 'Embed code copied to clipboard' })
+    } catch {
+      toast({ title: 'Error', description: 'Could not copy to clipboard', variant: 'destructive' })
+    }
+  }
+
+  const sourceOptions = source === 'network'
+    ? networks.map((n) => ({ id: n.id, name: n.name }))
+    : source === 'external'
+      ? externalCategories.map((c) => ({ id: c.id, name: c.name }))
+      : source === 'zone'
+        ? regions.flatMap((r) => r.zones.map((z) => ({ id: z.id, name: `${z.name} (${r.name})` })))
+        : []
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold">Embed Widget</h1>
+        <p className="text-gray-500">Show approved testimonies on partner websites</p>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Options</CardTitle>
+            <CardDescription>Only approved testimonies are shown, without contact details</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label>Show testimonies from</Label>
+                <Select value={source} onValueChange={(v) => { setSource(v as Source); setSourceId('') }}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Everywhere</SelectItem>
+                    <SelectItem value="network">A network</SelectItem>
+                    <SelectItem value="external">An external category</SelectItem>
+                    <SelectItem value="zone">A zone</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {source !== 'all' && (
+                <div className="space-y-2">
+                  <Label>{source === 'network' ? 'Network' : source === 'external' ? 'Category' : 'Zone'}</Label>
+                  <Select value={sourceId} onValueChange={setSourceId}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select..." />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {sourceOptions.map((option) => (
+                        <SelectItem key={option.id} value={option.id}>{option.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <Label>Theme</Label>
+                <Select value={theme} onValueChange={(v) => setTheme(v as EmbedTheme)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="light">Light</SelectItem>
+                    <SelectItem value="dark">Dark</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="accent">Accent colour</Label>
+                <Input id="accent" type="color" value={accent} onChange={(e) => setAccent(e.target.value)} className="h-10 p-1" />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="interval">Rotate every (seconds)</Label>
+                <Input
+                  id="interval"
+                  type="number"
+                  min="0"
+                  max="60"
+                  value={rotateSeconds}
+                  onChange={(e) => setRotateSeconds(e.target.value)}
+                />
+                <p className="text-xs text-gray-500">0 to turn rotation off</p>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="height">Height (px)</Label>
+                <Input
+                  id="height"
+                  type="number"
+                  min="200"
+                  value={height}
+                  onChange={(e) => setHeight(e.target.value)}
+                  placeholder="Fit content"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Script tag</Label>
+                <Button variant="ghost" size="sm" onClick={() => handleCopy(scriptSnippet)}>
+                  <Copy className="h-4 w-4 mr-2" />
+                  Copy
+                </Button>
+              </div>
+              <Textarea readOnly value={scriptSnippet} rows={3} className="font-mono text-xs" />
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Iframe</Label>
+                <Button variant="ghost" size="sm" onClick={() => handleCopy(iframeSnippet)}>
+                  <Copy className="h-4 w-4 mr-2" />
+                  Copy
+                </Button>
+              </div>
+              <Textarea readOnly value={iframeSnippet} rows={3} className="font-mono text-xs" />
+              <p className="text-xs text-gray-500">
+                Use the iframe where scripts aren&apos;t allowed. It won&apos;t resize to fit its content.
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Preview</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {origin && (
+              <iframe
+                key={embedUrl}
+                src={embedUrl}
+                title="Widget preview"
+                className="w-full border-0"
+                style={{ height: `${height || 420}px` }}
+              />
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
@@ -18,6 +18,10 @@ import {
   Settings,
   Tag,
   User,
+  Code,
+  ListChecks,
+  Ban,
+  History,
 } from 'lucide-react'
 import { useState } from 'react'
 import { cn } from '@/lib/utils'
@@ -25,9 +29,13 @@ import { cn } from '@/lib/utils'
 const navItems = [
   { href: '/admin', label: 'Dashboard', icon: LayoutDashboard },
   { href: '/admin/testimonies', label: 'Testimonies', icon: MessageSquare },
+  { href: '/admin/testimonies/queue', label: 'Review Queue', icon: ListChecks },
   { href: '/admin/networks', label: 'Networks', icon: Network },
   { href: '/admin/categories', label: 'Categories', icon: FolderOpen },
   { href: '/admin/testimony-categories', label: 'Testimony Types', icon: Tag },
+  { href: '/admin/rejection-reasons', label: 'Rejection Reasons', icon: Ban },
+  { href: '/admin/embed', label: 'Embed Widget', icon: Code },
+  { href: '/admin/audit', label: 'Audit Log', icon: History },
   { href: '/admin/profile', label: 'Profile', icon: User },
   { href: '/admin/settings', label: 'Settings', icon: Settings },
 ]
@@ -86,8 +94,8 @@ function AdminLayoutContent({ children }: { children: React.ReactNode }) {
       {/* Sidebar */}
       <aside
         className={cn(
-          "fixed top-0 left-0 h-full w-64 bg-white border-r z-50 transform transition-transform lg:translate-x-0",
-          sidebarOpen ? "translate-x-0" : "-translate-x-full"
+          "fixed top-0 start-0 h-full w-64 bg-white border-e z-50 transform transition-transform lg:translate-x-0",
+          sidebarOpen ? "translate-x-0" : "-translate-x-full rtl:translate-x-full"
         )}
       >
         <div className="flex items-center justify-between p-4 border-b">
@@ -130,14 +138,14 @@ function AdminLayoutContent({ children }: { children: React.ReactNode }) {
             className="w-full justify-start text-gray-600"
             onClick={logout}
           >
-            <LogOut className="h-4 w-4 mr-2" />
+            <LogOut className="h-4 w-4 me-2" />
             Sign Out
           </Button>
         </div>
       </aside>
 
       {/* Main content */}
-      <main className="lg:pl-64 pt-14 lg:pt-0 min-h-screen">
+      <main className="lg:ps-64 pt-14 lg:pt-0 min-h-screen">
         <div className="p-6">{children}</div>
       </main>
     </div>
@@ -0,0 +1,301 @@
+"use client"
+
+import { useEffect, useState, useCallback } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog'
+import { Skeleton } from '@/components/ui/skeleton'
+import { useToast } from '@/hooks/use-toast'
+import { getAdminRejectionReasons, createRejectionReason, updateRejectionReason, deleteRejectionReason } from '@/lib/api'
+import type { RejectionReason } from '@/types'
+import { Plus, Pencil, Trash2, Loader2 } from 'lucide-react'
+
+type RejectionReasonWithCount = RejectionReason & { _count: { testimonies: number } }
+
+export default function RejectionReasonsPage() {
+  const [reasons, setReasons] = useState<RejectionReasonWithCount[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isCreateOpen, setIsCreateOpen] = useState(false)
+  const [isEditOpen, setIsEditOpen] = useState(false)
+  const [selectedReason, setSelectedReason] = useState<RejectionReasonWithCount | null>(null)
+  const [label, setLabel] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+  const [isDeleting, setIsDeleting] = useState<string | null>(null)
+
+  const { toast } = useToast()
+
+  const loadReasons = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const result = await getAdminRejectionReasons()
+      setReasons(result.reasons)
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to load rejection reasons',
+        variant: 'destructive',
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }, [toast])
+
+  useEffect(() => {
+    loadReasons()
+  }, [loadReasons])
+
+  const handleCreate = async () => {
+    if (!label.trim()) return
+
+    setIsSaving(true)
+    try {
+      await createRejectionReason(label.trim())
+      toast({
+        title: 'Success',
+        description: 'Rejection reason created successfully',
+        variant: 'success',
+      })
+      setIsCreateOpen(false)
+      setLabel('')
+      loadReasons()
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to create reason',
+        variant: 'destructive',
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleEdit = async () => {
+    if (!selectedReason || !label.trim()) return
+
+    setIsSaving(true)
+    try {
+      await updateRejectionReason(selectedReason.id, { label: label.trim() })
+      toast({
+        title: 'Success',
+        description: 'Rejection reason updated successfully',
+        variant: 'success',
+      })
+      setIsEditOpen(false)
+      setSelectedReason(null)
+      setLabel('')
+      loadReasons()
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update reason',
+        variant: 'destructive',
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleToggleActive = async (reason: RejectionReasonWithCount) => {
+    try {
+      await updateRejectionReason(reason.id, { isActive: !reason.isActive })
+      toast({
+        title: 'Success',
+        description: `Reason ${reason.isActive ? 'deactivated' : 'activated'}`,
+      })
+      loadReasons()
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to update reason',
+        variant: 'destructive',
+      })
+    }
+  }
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Are you sure you want to delete this reason?')) return
+
+    setIsDeleting(id)
+    try {
+      await deleteRejectionReason(id)
+      toast({
+        title: 'Success',
+        description: 'Reason deleted successfully',
+      })
+      loadReasons()
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to delete reason',
+        variant: 'destructive',
+      })
+    } finally {
+      setIsDeleting(null)
+    }
+  }
+
+  const openEdit = (reason: RejectionReasonWithCount) => {
+    setSelectedReason(reason)
+    setLabel(reason.label)
+    setIsEditOpen(true)
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold">Rejection Reasons</h1>
+          <p className="text-gray-500">Reasons moderators can pick from when rejecting a testimony</p>
+        </div>
+
+        <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+          <DialogTrigger asChild>
+            <Button onClick={() => setLabel('')}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Reason
+            </Button>
+          </DialogTrigger>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Create Rejection Reason</DialogTitle>
+              <DialogDescription>
+                Add a reason moderators can give when rejecting
+              </DialogDescription>
+            </DialogHeader>
+            <div className="py-4">
+              <Label htmlFor="label">Reason</Label>
+              <Input
+                id="label"
+                value={label}
+                onChange={(e) => setLabel(e.target.value)}
+                placeholder="e.g., Not a testimony, Duplicate, Inappropriate content"
+                className="mt-1"
+              />
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setIsCreateOpen(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handleCreate} disabled={isSaving || !label.trim()}>
+                {isSaving ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : null}
+                Create
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">All Reasons</CardTitle>
+          <CardDescription>
+            {reasons.length} reason{reasons.length !== 1 ? 's' : ''} total
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-3">
+              {[...Array(5)].map((_, i) => (
+                <div key={i} className="flex items-center justify-between p-4 border rounded-lg">
+                  <Skeleton className="h-5 w-32" />
+                  <div className="flex gap-2">
+                    <Skeleton className="h-8 w-8" />
+                    <Skeleton className="h-8 w-8" />
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : reasons.length === 0 ? (
+            <p className="text-gray-500 text-center py-8">No rejection reasons yet</p>
+          ) : (
+            <div className="space-y-3">
+              {reasons.map((reason) => (
+                <div
+                  key={reason.id}
+                  className="flex items-center justify-between p-4 border rounded-lg"
+                >
+                  <div className="flex items-center gap-3">
+                    <span className="font-medium">{reason.label}</span>
+                    {!reason.isActive && (
+                      <Badge variant="outline">Inactive</Badge>
+                    )}
+                    <Badge variant="secondary" className="text-xs">
+                      {reason._count.testimonies} testimonies
+                    </Badge>
+                  </div>
+
+                  <div className="flex items-center gap-2">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleToggleActive(reason)}
+                    >
+                      {reason.isActive ? 'Deactivate' : 'Activate'}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => openEdit(reason)}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleDelete(reason.id)}
+                      disabled={isDeleting === reason.id}
+                    >
+                      {isDeleting === reason.id ? (
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                      ) : (
+                        <Trash2 className="h-4 w-4" />
+                      )}
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Edit Dialog */}
+      <Dialog open={isEditOpen} onOpenChange={setIsEditOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Edit Rejection Reason</DialogTitle>
+            <DialogDescription>
+              Update the wording of this reason
+            </DialogDescription>
+          </DialogHeader>
+          <div className="py-4">
+            <Label htmlFor="edit-label">Reason</Label>
+            <Input
+              id="edit-label"
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              placeholder="Enter reason"
+              className="mt-1"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsEditOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleEdit} disabled={isSaving || !label.trim()}>
+              {isSaving ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : null}
+              Save Changes
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
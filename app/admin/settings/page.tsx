@@ -9,16 +9,10 @@ import { Skeleton } from '@/components/ui/skeleton'
 import { Progress } from '@/components/ui/progress'
 import { useToast } from '@/hooks/use-toast'
 import { getStorageSettings, updateStorageSettings } from '@/lib/api'
+import { formatBytes } from '@/lib/utils'
+import { formatDuration } from '@/lib/media'
 import type { StorageSettingsResponse } from '@/types'
-import { HardDrive, Video, Mic, Save, Loader2, RefreshCw } from 'lucide-react'
-
-function formatBytes(bytes: number): string {
-  if (bytes === 0) return '0 B'
-  const k = 1024
-  const sizes = ['B', 'KB', 'MB', 'GB', 'TB']
-  const i = Math.floor(Math.log(bytes) / Math.log(k))
-  return `${parseFloat((bytes / Math.pow(k, i)).toFixed(2))} ${sizes[i]}`
-}
+import { HardDrive, Video, Mic, Paperclip, Save, Loader2, RefreshCw } from 'lucide-react'
 
 function parseSize(value: string, unit: string): number {
   const num = parseFloat(value) || 0
@@ -45,6 +39,10 @@ export default function SettingsPage() {
   const [totalStorageGB, setTotalStorageGB] = useState('')
   const [maxVideoMB, setMaxVideoMB] = useState('')
   const [maxAudioMB, setMaxAudioMB] = useState('')
+  const [maxAttachmentMB, setMaxAttachmentMB] = useState('')
+  const [minDurationSeconds, setMinDurationSeconds] = useState('')
+  const [maxVideoMinutes, setMaxVideoMinutes] = useState('')
+  const [maxAudioMinutes, setMaxAudioMinutes] = useState('')
 
   const { toast } = useToast()
 
@@ -56,6 +54,10 @@ export default function SettingsPage() {
       setTotalStorageGB(bytesToUnit(result.settings.totalStorageLimit, 'GB'))
       setMaxVideoMB(bytesToUnit(result.settings.maxVideoFileSize, 'MB'))
       setMaxAudioMB(bytesToUnit(result.settings.maxAudioFileSize, 'MB'))
+      setMaxAttachmentMB(bytesToUnit(result.settings.maxAttachmentFileSize, 'MB'))
+      setMinDurationSeconds(String(result.settings.minMediaDuration))
+      setMaxVideoMinutes(String(result.settings.maxVideoDuration / 60))
+      setMaxAudioMinutes(String(result.settings.maxAudioDuration / 60))
     } catch (error) {
       toast({
         title: 'Error',
@@ -75,6 +77,10 @@ export default function SettingsPage() {
     const totalStorageLimit = parseSize(totalStorageGB, 'GB')
     const maxVideoFileSize = parseSize(maxVideoMB, 'MB')
     const maxAudioFileSize = parseSize(maxAudioMB, 'MB')
+    const maxAttachmentFileSize = parseSize(maxAttachmentMB, 'MB')
+    const minMediaDuration = Math.round(parseFloat(minDurationSeconds) || 0)
+    const maxVideoDuration = Math.round((parseFloat(maxVideoMinutes) || 0) * 60)
+    const maxAudioDuration = Math.round((parseFloat(maxAudioMinutes) || 0) * 60)
 
     if (totalStorageLimit < 100 * 1024 * 1024) {
       toast({
@@ -103,12 +109,43 @@ export default function SettingsPage() {
       return
     }
 
+    if (maxAttachmentFileSize < 1024 * 1024) {
+      toast({
+        title: 'Validation Error',
+        description: 'Max attachment file size must be at least 1 MB',
+        variant: 'destructive',
+      })
+      return
+    }
+
+    if (minMediaDuration < 1) {
+      toast({
+        title: 'Validation Error',
+        description: 'Minimum recording length must be at least 1 second',
+        variant: 'destructive',
+      })
+      return
+    }
+
+    if (maxVideoDuration <= minMediaDuration || maxAudioDuration <= minMediaDuration) {
+      toast({
+        title: 'Validation Error',
+        description: 'Maximum recording lengths must be longer than the minimum',
+        variant: 'destructive',
+      })
+      return
+    }
+
     setIsSaving(true)
     try {
       const result = await updateStorageSettings({
         totalStorageLimit,
         maxVideoFileSize,
         maxAudioFileSize,
+        maxAttachmentFileSize,
+        minMediaDuration,
+        maxVideoDuration,
+        maxAudioDuration,
       })
       setData(result)
       toast({
@@ -205,7 +242,7 @@ export default function SettingsPage() {
             <Progress value={stats.usagePercent} className="h-3" />
           </div>
 
-          <div className="grid gap-4 md:grid-cols-2">
+          <div className="grid gap-4 md:grid-cols-3">
             <div className="flex items-center justify-between p-4 border rounded-lg">
               <div className="flex items-center gap-3">
                 <Video className="h-5 w-5 text-blue-500" />
@@ -226,6 +263,16 @@ export default function SettingsPage() {
               </div>
               <span className="font-semibold">{formatBytes(stats.audios.size)}</span>
             </div>
+            <div className="flex items-center justify-between p-4 border rounded-lg">
+              <div className="flex items-center gap-3">
+                <Paperclip className="h-5 w-5 text-amber-500" />
+                <div>
+                  <p className="font-medium">Attachments</p>
+                  <p className="text-sm text-gray-500">{stats.attachments.count} files</p>
+                </div>
+              </div>
+              <span className="font-semibold">{formatBytes(stats.attachments.size)}</span>
+            </div>
           </div>
         </CardContent>
       </Card>
@@ -234,10 +281,10 @@ export default function SettingsPage() {
       <Card>
         <CardHeader>
           <CardTitle className="text-lg">Storage Limits</CardTitle>
-          <CardDescription>Configure maximum storage and file size limits</CardDescription>
+          <CardDescription>Configure maximum storage, file size and recording length limits</CardDescription>
         </CardHeader>
         <CardContent className="space-y-6">
-          <div className="grid gap-6 md:grid-cols-3">
+          <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-4">
             <div className="space-y-2">
               <Label htmlFor="totalStorage">Total Storage Limit (GB)</Label>
               <Input
@@ -282,6 +329,68 @@ export default function SettingsPage() {
                 Current: {formatBytes(settings.maxAudioFileSize)}
               </p>
             </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="maxAttachment">Max Attachment File Size (MB)</Label>
+              <Input
+                id="maxAttachment"
+                type="number"
+                min="1"
+                value={maxAttachmentMB}
+                onChange={(e) => setMaxAttachmentMB(e.target.value)}
+                placeholder="e.g. 10"
+              />
+              <p className="text-xs text-gray-500">
+                Current: {formatBytes(settings.maxAttachmentFileSize)}
+              </p>
+            </div>
+          </div>
+
+          <div className="grid gap-6 md:grid-cols-3">
+            <div className="space-y-2">
+              <Label htmlFor="minDuration">Min Recording Length (seconds)</Label>
+              <Input
+                id="minDuration"
+                type="number"
+                min="1"
+                value={minDurationSeconds}
+                onChange={(e) => setMinDurationSeconds(e.target.value)}
+                placeholder="e.g. 5"
+              />
+              <p className="text-xs text-gray-500">
+                Current: {formatDuration(settings.minMediaDuration)}
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="maxVideoDuration">Max Video Length (minutes)</Label>
+              <Input
+                id="maxVideoDuration"
+                type="number"
+                min="1"
+                value={maxVideoMinutes}
+                onChange={(e) => setMaxVideoMinutes(e.target.value)}
+                placeholder="e.g. 30"
+              />
+              <p className="text-xs text-gray-500">
+                Current: {formatDuration(settings.maxVideoDuration)}
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="maxAudioDuration">Max Audio Length (minutes)</Label>
+              <Input
+                id="maxAudioDuration"
+                type="number"
+                min="1"
+                value={maxAudioMinutes}
+                onChange={(e) => setMaxAudioMinutes(e.target.value)}
+                placeholder="e.g. 60"
+              />
+              <p className="text-xs text-gray-500">
+                Current: {formatDuration(settings.maxAudioDuration)}
+              </p>
+            </div>
           </div>
 
           <div className="flex justify-end">
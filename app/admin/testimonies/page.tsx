@@ -1,6 +1,7 @@
 "use client"
 
-import { useEffect, useState, useCallback } from 'react'
+import { useEffect, useState, useCallback, useMemo, useRef } from 'react'
+import Link from 'next/link'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
@@ -8,9 +9,33 @@ import { Badge } from '@/components/ui/badge'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
 import { Skeleton } from '@/components/ui/skeleton'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { AttachmentGallery } from '@/components/attachment-gallery'
+import { BulkProgressDialog } from '@/components/bulk-progress-dialog'
+import { ExportDialog } from '@/components/export-dialog'
+import { RejectDialog } from '@/components/reject-dialog'
+import { TestimonyNotes } from '@/components/testimony-notes'
+import { AuditEntryItem } from '@/components/audit-entry'
 import { useToast } from '@/hooks/use-toast'
-import { getTestimonies, getTestimony, updateTestimonyStatus, deleteTestimony, getFilterOptions, FilterOptions } from '@/lib/api'
-import type { Testimony, PaginatedResponse } from '@/types'
+import {
+  getTestimonies,
+  getAllTestimonies,
+  getTestimony,
+  updateTestimonyStatus,
+  deleteTestimony,
+  bulkUpdateTestimonyStatus,
+  bulkUpdateTestimonyCategory,
+  bulkDeleteTestimonies,
+  getTestimonyHistory,
+  getFilterOptions,
+  getMediaUrl,
+  FilterOptions,
+  TestimonyFilters,
+} from '@/lib/api'
+import { runBulkAction, type BulkProgress } from '@/lib/bulk'
+import { formatStoredPhone } from '@/lib/phone'
+import type { Testimony, PaginatedResponse, PublicationConsent, BulkResult, RejectionInput, AuditEntry } from '@/types'
 import {
   Search,
   ChevronLeft,
@@ -23,15 +48,30 @@ import {
   Video,
   Mic,
   Loader2,
+  Copy,
+  ListChecks,
+  Download,
 } from 'lucide-react'
 
+const PUBLICATION_LABELS: Record<PublicationConsent, string> = {
+  PUBLIC: 'Public, with name',
+  ANONYMOUS: 'Public, anonymous',
+  INTERNAL: 'Internal only',
+}
+
 export default function TestimoniesPage() {
   const [data, setData] = useState<PaginatedResponse<Testimony> | null>(null)
   const [isLoading, setIsLoading] = useState(true)
   const [selectedTestimony, setSelectedTestimony] = useState<Testimony | null>(null)
   const [isViewOpen, setIsViewOpen] = useState(false)
+  const [detailTab, setDetailTab] = useState('details')
+  // The open testimony's audit history, fetched when its tab is shown
+  const [history, setHistory] = useState<AuditEntry[] | null>(null)
+  const [historyFailed, setHistoryFailed] = useState(false)
   const [isDeleting, setIsDeleting] = useState(false)
   const [isUpdating, setIsUpdating] = useState(false)
+  // Whether the reject dialog is for the open testimony or the bulk selection
+  const [rejecting, setRejecting] = useState<'single' | 'bulk' | null>(null)
   const [filterOptions, setFilterOptions] = useState<FilterOptions | null>(null)
 
   // Filters
@@ -44,6 +84,29 @@ export default function TestimoniesPage() {
   const [zoneId, setZoneId] = useState<string>('')
   const [search, setSearch] = useState('')
   const [searchInput, setSearchInput] = useState('')
+  const [isExportOpen, setIsExportOpen] = useState(false)
+
+  const filters = useMemo<TestimonyFilters>(() => ({
+    status: status || undefined,
+    categoryType: categoryType || undefined,
+    contentType: contentType || undefined,
+    testimonyCategoryId: testimonyCategoryId || undefined,
+    countryId: countryId || undefined,
+    zoneId: zoneId || undefined,
+    search: search || undefined,
+  }), [status, categoryType, contentType, testimonyCategoryId, countryId, zoneId, search])
+
+  // Bulk selection: ids picked by hand (with names for the failure report), or
+  // everything matching the filters
+  const [selected, setSelected] = useState<Record<string, string>>({})
+  const [allMatching, setAllMatching] = useState(false)
+  const [bulk, setBulk] = useState<{
+    title: string
+    progress: BulkProgress | null
+    isRunning: boolean
+    names: Record<string, string>
+  } | null>(null)
+  const bulkController = useRef<AbortController | null>(null)
 
   const { toast } = useToast()
 
@@ -52,30 +115,10 @@ export default function TestimoniesPage() {
     getFilterOptions().then(setFilterOptions).catch(console.error)
   }, [])
 
-  // Build full media URL (backend returns relative path like /api/media/...)
-  const API_URL = process.env.NEXT_PUBLIC_API_URL || ''
-  const getMediaUrl = useCallback((url: string | null | undefined) => {
-    if (!url) return null
-    // If already a full URL, return as-is
-    if (url.startsWith('http://') || url.startsWith('https://')) return url
-    // Prepend API URL for relative paths
-    return `${API_URL}${url}`
-  }, [API_URL])
-
   const loadTestimonies = useCallback(async () => {
     setIsLoading(true)
     try {
-      const result = await getTestimonies({
-        page,
-        limit: 10,
-        status: status || undefined,
-        categoryType: categoryType || undefined,
-        contentType: contentType || undefined,
-        testimonyCategoryId: testimonyCategoryId || undefined,
-        countryId: countryId || undefined,
-        zoneId: zoneId || undefined,
-        search: search || undefined,
-      })
+      const result = await getTestimonies({ ...filters, page, limit: 10 })
       setData(result)
     } catch (error) {
       toast({
@@ -86,12 +129,124 @@ export default function TestimoniesPage() {
     } finally {
       setIsLoading(false)
     }
-  }, [page, status, categoryType, contentType, testimonyCategoryId, countryId, zoneId, search, toast])
+  }, [page, filters, toast])
 
   useEffect(() => {
     loadTestimonies()
   }, [loadTestimonies])
 
+  // A selection only makes sense for the filters it was made under
+  useEffect(() => {
+    setSelected({})
+    setAllMatching(false)
+  }, [filters])
+
+  const pageTestimonies = data?.testimonies ?? []
+  const total = data?.pagination.total ?? 0
+  const selectedCount = allMatching ? total : Object.keys(selected).length
+  const isPageSelected = pageTestimonies.length > 0 && pageTestimonies.every((t) => allMatching || t.id in selected)
+
+  const toggleSelected = (testimony: Testimony, checked: boolean) => {
+    if (allMatching) {
+      // Unticking one row drops back to picking rows from this page
+      setAllMatching(false)
+      setSelected(Object.fromEntries(pageTestimonies.filter((t) => t.id !== testimony.id).map((t) => [t.id, t.name])))
+      return
+    }
+    setSelected((current) => {
+      const next = { ...current }
+      if (checked) next[testimony.id] = testimony.name
+      else delete next[testimony.id]
+      return next
+    })
+  }
+
+  const togglePageSelected = (checked: boolean) => {
+    setAllMatching(false)
+    setSelected((current) => {
+      const next = { ...current }
+      pageTestimonies.forEach((t) => {
+        if (checked) next[t.id] = t.name
+        else delete next[t.id]
+      })
+      return next
+    })
+  }
+
+  const clearSelection = () => {
+    setSelected({})
+    setAllMatching(false)
+  }
+
+  const runBulk = async (title: string, action: (ids: string[]) => Promise<BulkResult[]>) => {
+    const controller = new AbortController()
+    bulkController.current = controller
+    setBulk({ title, progress: null, isRunning: true, names: selected })
+
+    let names = selected
+    if (allMatching) {
+      try {
+        const matching = await getAllTestimonies(filters, undefined, controller.signal)
+        names = Object.fromEntries(matching.map((t) => [t.id, t.name]))
+      } catch (error) {
+        bulkController.current = null
+        setBulk(null)
+        // Stopped while the ids were still loading: nothing was changed
+        if (controller.signal.aborted) return
+        toast({
+          title: 'Error',
+          description: 'Failed to load the matching testimonies, so nothing was changed',
+          variant: 'destructive',
+        })
+        return
+      }
+    }
+
+    try {
+      setBulk((current) => current && { ...current, names })
+      await runBulkAction(
+        Object.keys(names),
+        action,
+        (progress) => setBulk((current) => current && { ...current, progress }),
+        controller.signal
+      )
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'The bulk action stopped part way. Check the list for what was changed.',
+        variant: 'destructive',
+      })
+    } finally {
+      bulkController.current = null
+    }
+
+    setBulk((current) => current && { ...current, isRunning: false })
+    clearSelection()
+    loadTestimonies()
+    getFilterOptions().then(setFilterOptions).catch(console.error)
+  }
+
+  const handleBulkApprove = () => {
+    if (!confirm(`Approve ${selectedCount} testimonies?`)) return
+    runBulk('Approving testimonies', (ids) => bulkUpdateTestimonyStatus(ids, 'APPROVED'))
+  }
+
+  const handleBulkReject = (rejection: RejectionInput) => {
+    setRejecting(null)
+    runBulk('Rejecting testimonies', (ids) => bulkUpdateTestimonyStatus(ids, 'REJECTED', rejection))
+  }
+
+  const handleBulkCategory = (categoryId: string) => {
+    const category = filterOptions?.testimonyCategories.find((c) => c.id === categoryId)
+    if (!category || !confirm(`Change ${selectedCount} testimonies to "${category.name}"?`)) return
+    runBulk('Changing testimony type', (ids) => bulkUpdateTestimonyCategory(ids, categoryId))
+  }
+
+  const handleBulkDelete = () => {
+    if (!confirm(`Delete ${selectedCount} testimonies? This cannot be undone.`)) return
+    runBulk('Deleting testimonies', bulkDeleteTestimonies)
+  }
+
   const handleSearch = () => {
     setPage(1)
     setSearch(searchInput)
@@ -101,6 +256,7 @@ export default function TestimoniesPage() {
     try {
       const result = await getTestimony(id)
       setSelectedTestimony(result.testimony)
+      setDetailTab('details')
       setIsViewOpen(true)
     } catch (error) {
       toast({
@@ -111,15 +267,30 @@ export default function TestimoniesPage() {
     }
   }
 
-  const handleUpdateStatus = async (id: string, newStatus: 'APPROVED' | 'REJECTED') => {
+  const selectedId = selectedTestimony?.id
+  useEffect(() => {
+    if (!isViewOpen || detailTab !== 'history' || !selectedId) return
+    let cancelled = false
+    setHistory(null)
+    setHistoryFailed(false)
+    getTestimonyHistory(selectedId)
+      .then((entries) => !cancelled && setHistory(entries))
+      .catch(() => !cancelled && setHistoryFailed(true))
+    return () => {
+      cancelled = true
+    }
+  }, [isViewOpen, detailTab, selectedId])
+
+  const handleUpdateStatus = async (id: string, newStatus: 'APPROVED' | 'REJECTED', rejection?: RejectionInput) => {
     setIsUpdating(true)
     try {
-      await updateTestimonyStatus(id, newStatus)
+      await updateTestimonyStatus(id, newStatus, rejection)
       toast({
         title: 'Success',
         description: `Testimony ${newStatus.toLowerCase()}`,
         variant: 'success',
       })
+      setRejecting(null)
       setIsViewOpen(false)
       loadTestimonies()
     } catch (error) {
@@ -180,9 +351,23 @@ export default function TestimoniesPage() {
 
   return (
     <div className="space-y-6">
-      <div>
-        <h1 className="text-2xl font-bold">Testimonies</h1>
-        <p className="text-gray-500">Manage and review submitted testimonies</p>
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">Testimonies</h1>
+          <p className="text-gray-500">Manage and review submitted testimonies</p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => setIsExportOpen(true)} disabled={!data}>
+            <Download className="h-4 w-4 me-2" />
+            Export
+          </Button>
+          <Button asChild>
+            <Link href="/admin/testimonies/queue">
+              <ListChecks className="h-4 w-4 me-2" />
+              Review queue
+            </Link>
+          </Button>
+        </div>
       </div>
 
       {/* Filters */}
@@ -315,12 +500,65 @@ export default function TestimoniesPage() {
             <p className="text-gray-500 text-center py-8">No testimonies found</p>
           ) : (
             <div className="space-y-3">
+              <div className="flex flex-wrap items-center gap-x-4 gap-y-2 px-4 min-h-9 text-sm">
+                <div className="flex items-center gap-3">
+                  <Checkbox
+                    checked={isPageSelected}
+                    onCheckedChange={(checked) => togglePageSelected(checked === true)}
+                    aria-label="Select all on this page"
+                  />
+                  <span className="text-gray-500">
+                    {selectedCount > 0 ? `${selectedCount.toLocaleString()} selected` : 'Select all on this page'}
+                  </span>
+                </div>
+                {isPageSelected && !allMatching && total > pageTestimonies.length && (
+                  <button type="button" onClick={() => setAllMatching(true)} className="text-blue-600 hover:underline">
+                    Select all {total.toLocaleString()} matching testimonies
+                  </button>
+                )}
+
+                {selectedCount > 0 && (
+                  <div className="flex flex-wrap items-center gap-2 ms-auto">
+                    <Button size="sm" onClick={handleBulkApprove}>
+                      <CheckCircle2 className="h-4 w-4 me-2" />
+                      Approve
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => setRejecting('bulk')}>
+                      <XCircle className="h-4 w-4 me-2" />
+                      Reject
+                    </Button>
+                    <Select value="" onValueChange={handleBulkCategory}>
+                      <SelectTrigger className="h-9 w-[160px]">
+                        <SelectValue placeholder="Change type" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {filterOptions?.testimonyCategories.map((cat) => (
+                          <SelectItem key={cat.id} value={cat.id}>{cat.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button size="sm" variant="destructive" onClick={handleBulkDelete}>
+                      <Trash2 className="h-4 w-4 me-2" />
+                      Delete
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={clearSelection}>
+                      Clear
+                    </Button>
+                  </div>
+                )}
+              </div>
+
               {data.testimonies.map((testimony) => (
                 <div
                   key={testimony.id}
                   className="flex items-center justify-between p-4 border rounded-lg hover:bg-gray-50 transition-colors"
                 >
                   <div className="flex items-center gap-4 flex-1 min-w-0">
+                    <Checkbox
+                      checked={allMatching || testimony.id in selected}
+                      onCheckedChange={(checked) => toggleSelected(testimony, checked === true)}
+                      aria-label={`Select ${testimony.name}`}
+                    />
                     <div className="flex items-center justify-center h-10 w-10 rounded-full bg-gray-100">
                       {getContentIcon(testimony.contentType)}
                     </div>
@@ -338,6 +576,15 @@ export default function TestimoniesPage() {
                   </div>
 
                   <div className="flex items-center gap-3">
+                    {(testimony.publicationConsent === 'ANONYMOUS' || testimony.publicationConsent === 'INTERNAL') && (
+                      <Badge variant="outline">{PUBLICATION_LABELS[testimony.publicationConsent]}</Badge>
+                    )}
+                    {testimony.duplicateOfId && (
+                      <Badge variant="outline" className="border-amber-300 text-amber-700">
+                        <Copy className="h-3 w-3 me-1" />
+                        Possible duplicate
+                      </Badge>
+                    )}
                     {getStatusBadge(testimony.status)}
                     <Button
                       variant="ghost"
@@ -365,7 +612,7 @@ export default function TestimoniesPage() {
                   onClick={() => setPage(page - 1)}
                   disabled={page === 1}
                 >
-                  <ChevronLeft className="h-4 w-4 mr-1" />
+                  <ChevronLeft className="h-4 w-4 me-1 rtl:rotate-180" />
                   Previous
                 </Button>
                 <Button
@@ -375,7 +622,7 @@ export default function TestimoniesPage() {
                   disabled={page === data.pagination.totalPages}
                 >
                   Next
-                  <ChevronRight className="h-4 w-4 ml-1" />
+                  <ChevronRight className="h-4 w-4 ms-1 rtl:rotate-180" />
                 </Button>
               </div>
             </div>
@@ -383,6 +630,36 @@ export default function TestimoniesPage() {
         </CardContent>
       </Card>
 
+      <RejectDialog
+        open={rejecting !== null}
+        onOpenChange={(open) => !open && setRejecting(null)}
+        description={rejecting === 'bulk'
+          ? `Rejecting ${selectedCount} testimonies`
+          : `Rejecting the testimony from ${selectedTestimony?.name ?? ''}`}
+        isSubmitting={isUpdating}
+        onConfirm={(rejection) => rejecting === 'bulk'
+          ? handleBulkReject(rejection)
+          : selectedTestimony && handleUpdateStatus(selectedTestimony.id, 'REJECTED', rejection)}
+      />
+
+      {bulk && (
+        <BulkProgressDialog
+          title={bulk.title}
+          progress={bulk.progress}
+          isRunning={bulk.isRunning}
+          names={bulk.names}
+          onStop={() => bulkController.current?.abort()}
+          onClose={() => setBulk(null)}
+        />
+      )}
+
+      <ExportDialog
+        open={isExportOpen}
+        onOpenChange={setIsExportOpen}
+        filters={filters}
+        total={data?.pagination.total ?? 0}
+      />
+
       {/* View Testimony Dialog */}
       <Dialog open={isViewOpen} onOpenChange={setIsViewOpen}>
         <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
@@ -395,89 +672,201 @@ export default function TestimoniesPage() {
                 </DialogDescription>
               </DialogHeader>
 
-              <div className="space-y-4">
-                <div className="flex items-center justify-between">
-                  <span className="font-medium">Status</span>
-                  {getStatusBadge(selectedTestimony.status)}
-                </div>
-
-                <div className="grid grid-cols-2 gap-4">
-                  <div>
-                    <span className="text-sm text-gray-500">Name</span>
-                    <p className="font-medium">{selectedTestimony.name}</p>
-                  </div>
-                  <div>
-                    <span className="text-sm text-gray-500">Email</span>
-                    <p className="font-medium">{selectedTestimony.email}</p>
-                  </div>
-                  <div>
-                    <span className="text-sm text-gray-500">Phone</span>
-                    <p className="font-medium">{selectedTestimony.phoneCountryCode} {selectedTestimony.phone}</p>
+              <Tabs value={detailTab} onValueChange={setDetailTab}>
+                <TabsList>
+                  <TabsTrigger value="details">Details</TabsTrigger>
+                  <TabsTrigger value="history">History</TabsTrigger>
+                </TabsList>
+
+                <TabsContent value="details">
+                <div className="space-y-4">
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium">Status</span>
+                    {getStatusBadge(selectedTestimony.status)}
                   </div>
-                  <div>
-                    <span className="text-sm text-gray-500">Country</span>
-                    <p className="font-medium">{selectedTestimony.country.name}</p>
-                  </div>
-                  <div>
-                    <span className="text-sm text-gray-500">Church</span>
-                    <p className="font-medium">{selectedTestimony.church}</p>
-                  </div>
-                  <div>
-                    <span className="text-sm text-gray-500">Zone</span>
-                    <p className="font-medium">{selectedTestimony.zone?.name || '-'}</p>
-                  </div>
-                  <div>
-                    <span className="text-sm text-gray-500">Testimony Type</span>
-                    <p className="font-medium text-blue-600">{selectedTestimony.testimonyCategory?.name || '-'}</p>
+
+                  {selectedTestimony.status === 'REJECTED' && (selectedTestimony.rejectionReason || selectedTestimony.rejectionNote) && (
+                    <div className="p-3 rounded-lg bg-red-50 text-sm text-red-800">
+                      <p className="font-medium">
+                        Rejected{selectedTestimony.rejectionReason && `: ${selectedTestimony.rejectionReason.label}`}
+                      </p>
+                      {selectedTestimony.rejectionNote && (
+                        <p className="mt-1 whitespace-pre-wrap">{selectedTestimony.rejectionNote}</p>
+                      )}
+                    </div>
+                  )}
+
+                  {selectedTestimony.duplicateOfId && (
+                    <div className="flex items-center justify-between gap-2 p-3 rounded-lg bg-amber-50 text-sm text-amber-800">
+                      <span>Possible duplicate of an earlier testimony from the same person</span>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleViewTestimony(selectedTestimony.duplicateOfId!)}
+                      >
+                        View earlier
+                      </Button>
+                    </div>
+                  )}
+
+                  <div className="p-3 rounded-lg bg-gray-50 text-sm space-y-2">
+                    <div className="grid grid-cols-3 gap-4">
+                      <div>
+                        <span className="text-gray-500">Publication</span>
+                        <p className="font-medium">
+                          {selectedTestimony.publicationConsent ? PUBLICATION_LABELS[selectedTestimony.publicationConsent] : 'Not recorded'}
+                        </p>
+                      </div>
+                      <div>
+                        <span className="text-gray-500">Contact</span>
+                        <p className={selectedTestimony.contactConsent === false ? 'font-medium text-red-600' : 'font-medium'}>
+                          {selectedTestimony.contactConsent === null ? 'Not recorded' : selectedTestimony.contactConsent ? 'Allowed' : 'Do not contact'}
+                        </p>
+                      </div>
+                      <div>
+                        <span className="text-gray-500">Privacy policy</span>
+                        <p className="font-medium">
+                          {selectedTestimony.privacyAcceptedAt
+                            ? `Accepted ${new Date(selectedTestimony.privacyAcceptedAt).toLocaleDateString()}`
+                            : 'Not recorded'}
+                        </p>
+                      </div>
+                    </div>
+                    {selectedTestimony.publicationConsent === 'INTERNAL' && (
+                      <p className="text-gray-500">Approving keeps this testimony internal; it won&apos;t be published.</p>
+                    )}
+                    {selectedTestimony.publicationConsent === 'ANONYMOUS' && (
+                      <p className="text-gray-500">Published without the submitter&apos;s name or initial.</p>
+                    )}
                   </div>
-                  <div>
-                    <span className="text-sm text-gray-500">Submission Category</span>
-                    <p className="font-medium">
-                      {selectedTestimony.categoryType}
-                      {selectedTestimony.network && ` - ${selectedTestimony.network.name}`}
-                      {selectedTestimony.externalCategory && ` - ${selectedTestimony.externalCategory.name}`}
-                      {selectedTestimony.customNetwork && ` - ${selectedTestimony.customNetwork}`}
-                      {selectedTestimony.customExternal && ` - ${selectedTestimony.customExternal}`}
-                    </p>
+
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <span className="text-sm text-gray-500">Name</span>
+                      <p className="font-medium">{selectedTestimony.name}</p>
+                    </div>
+                    <div>
+                      <span className="text-sm text-gray-500">Email</span>
+                      <p className="font-medium">{selectedTestimony.email}</p>
+                    </div>
+                    <div>
+                      <span className="text-sm text-gray-500">Phone</span>
+                      <p className="font-medium" dir="ltr">{formatStoredPhone(selectedTestimony.phone, selectedTestimony.phoneCountryCode)}</p>
+                    </div>
+                    <div>
+                      <span className="text-sm text-gray-500">Country</span>
+                      <p className="font-medium">{selectedTestimony.country.name}</p>
+                    </div>
+                    <div>
+                      <span className="text-sm text-gray-500">Church</span>
+                      <p className="font-medium">{selectedTestimony.church}</p>
+                    </div>
+                    <div>
+                      <span className="text-sm text-gray-500">Zone</span>
+                      <p className="font-medium">{selectedTestimony.zone?.name || '-'}</p>
+                    </div>
+                    <div>
+                      <span className="text-sm text-gray-500">Testimony Type</span>
+                      <p className="font-medium text-blue-600">{selectedTestimony.testimonyCategory?.name || '-'}</p>
+                    </div>
+                    <div>
+                      <span className="text-sm text-gray-500">Submission Category</span>
+                      <p className="font-medium">
+                        {selectedTestimony.categoryType}
+                        {selectedTestimony.network && ` - ${selectedTestimony.network.name}`}
+                        {selectedTestimony.externalCategory && ` - ${selectedTestimony.externalCategory.name}`}
+                        {selectedTestimony.customNetwork && ` - ${selectedTestimony.customNetwork}`}
+                        {selectedTestimony.customExternal && ` - ${selectedTestimony.customExternal}`}
+                      </p>
+                    </div>
                   </div>
-                </div>
 
-                {selectedTestimony.kingschatUsername && (
-                  <div>
-                    <span className="text-sm text-gray-500">KingsChat</span>
-                    <p className="font-medium">{selectedTestimony.kingschatUsername}</p>
+                  {selectedTestimony.kingschatUsername && (
+                    <div>
+                      <span className="text-sm text-gray-500">KingsChat</span>
+                      <p className="font-medium">{selectedTestimony.kingschatUsername}</p>
+                    </div>
+                  )}
+
+                  <div className="pt-4 border-t">
+                    <span className="text-sm text-gray-500">Testimony Content ({selectedTestimony.contentType})</span>
+                    {selectedTestimony.contentType === 'TEXT' ? (
+                      <p className="mt-2 whitespace-pre-wrap bg-gray-50 p-4 rounded-lg">
+                        {selectedTestimony.textContent}
+                      </p>
+                    ) : selectedTestimony.mediaUrl ? (
+                      <div className="mt-2">
+                        {selectedTestimony.contentType === 'VIDEO' ? (
+                          <video
+                            src={getMediaUrl(selectedTestimony.mediaUrl) || ''}
+                            controls
+                            className="w-full rounded-lg"
+                            crossOrigin="use-credentials"
+                          />
+                        ) : (
+                          <audio
+                            src={getMediaUrl(selectedTestimony.mediaUrl) || ''}
+                            controls
+                            className="w-full"
+                            crossOrigin="use-credentials"
+                          />
+                        )}
+                      </div>
+                    ) : (
+                      <p className="mt-2 text-gray-500">Media not available</p>
+                    )}
                   </div>
-                )}
 
-                <div className="pt-4 border-t">
-                  <span className="text-sm text-gray-500">Testimony Content ({selectedTestimony.contentType})</span>
-                  {selectedTestimony.contentType === 'TEXT' ? (
-                    <p className="mt-2 whitespace-pre-wrap bg-gray-50 p-4 rounded-lg">
-                      {selectedTestimony.textContent}
-                    </p>
-                  ) : selectedTestimony.mediaUrl ? (
-                    <div className="mt-2">
-                      {selectedTestimony.contentType === 'VIDEO' ? (
-                        <video
-                          src={getMediaUrl(selectedTestimony.mediaUrl) || ''}
-                          controls
-                          className="w-full rounded-lg"
-                          crossOrigin="use-credentials"
+                  {selectedTestimony.attachments && selectedTestimony.attachments.length > 0 && (
+                    <div className="pt-4 border-t">
+                      <span className="text-sm text-gray-500">Attachments ({selectedTestimony.attachments.length})</span>
+                      <div className="mt-2">
+                        <AttachmentGallery
+                          attachments={selectedTestimony.attachments}
+                          getUrl={(url) => getMediaUrl(url) || ''}
                         />
-                      ) : (
-                        <audio
-                          src={getMediaUrl(selectedTestimony.mediaUrl) || ''}
-                          controls
-                          className="w-full"
-                          crossOrigin="use-credentials"
-                        />
-                      )}
+                      </div>
                     </div>
-                  ) : (
-                    <p className="mt-2 text-gray-500">Media not available</p>
                   )}
+
+                  <div className="pt-4 border-t">
+                    <span className="text-sm text-gray-500">Notes</span>
+                    <div className="mt-2">
+                      <TestimonyNotes
+                        testimonyId={selectedTestimony.id}
+                        notes={selectedTestimony.notes ?? []}
+                        onAdded={(note) => setSelectedTestimony({
+                          ...selectedTestimony,
+                          notes: [...(selectedTestimony.notes ?? []), note],
+                        })}
+                      />
+                    </div>
+                  </div>
                 </div>
-              </div>
+                </TabsContent>
+
+                <TabsContent value="history">
+                  {historyFailed ? (
+                    <p className="text-sm text-red-600 py-6 text-center">Failed to load history</p>
+                  ) : history === null ? (
+                    <div className="space-y-3">
+                      {[...Array(3)].map((_, i) => (
+                        <Skeleton key={i} className="h-12 w-full" />
+                      ))}
+                    </div>
+                  ) : history.length === 0 ? (
+                    <p className="text-sm text-gray-500 py-6 text-center">No changes recorded yet</p>
+                  ) : (
+                    <div className="divide-y">
+                      {history.map((entry) => (
+                        <div key={entry.id} className="py-3 first:pt-0">
+                          <AuditEntryItem entry={entry} showTarget={false} />
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </TabsContent>
+              </Tabs>
 
               <DialogFooter className="flex-col sm:flex-row gap-2">
                 <Button
@@ -496,7 +885,7 @@ export default function TestimoniesPage() {
                   {selectedTestimony.status !== 'REJECTED' && (
                     <Button
                       variant="outline"
-                      onClick={() => handleUpdateStatus(selectedTestimony.id, 'REJECTED')}
+                      onClick={() => setRejecting('single')}
                       disabled={isUpdating}
                     >
                       {isUpdating ? (
@@ -0,0 +1,383 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Skeleton } from '@/components/ui/skeleton'
+import { AttachmentGallery } from '@/components/attachment-gallery'
+import { RejectDialog } from '@/components/reject-dialog'
+import { TestimonyNotes } from '@/components/testimony-notes'
+import { useToast } from '@/hooks/use-toast'
+import { getTestimonies, getTestimony, updateTestimonyStatus, deleteTestimony, getMediaUrl } from '@/lib/api'
+import { formatStoredPhone } from '@/lib/phone'
+import type { RejectionInput, Testimony, TestimonyNote } from '@/types'
+import { CheckCircle2, ChevronLeft, ChevronRight, Copy, Loader2, MessageSquarePlus, Trash2, X, XCircle } from 'lucide-react'
+
+const PAGE_SIZE = 25
+// Fetch more pending testimonies once this few are left
+const REFILL_AT = 5
+
+const SHORTCUTS: [string, string][] = [
+  ['A', 'Approve'],
+  ['R', 'Reject'],
+  ['J', 'Next'],
+  ['K', 'Previous'],
+  ['D', 'Delete'],
+  ['N', 'Note'],
+]
+
+function isTyping(target: EventTarget | null): boolean {
+  return target instanceof HTMLElement &&
+    (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))
+}
+
+// One pending testimony at a time, full screen, driven from the keyboard.
+// Acting on a testimony takes it out of the queue, which moves on to the next.
+export default function ReviewQueuePage() {
+  const [queue, setQueue] = useState<string[]>([])
+  const [index, setIndex] = useState(0)
+  const [pendingTotal, setPendingTotal] = useState(0)
+  const [isExhausted, setIsExhausted] = useState(false)
+  const [isLoadingQueue, setIsLoadingQueue] = useState(true)
+  const [current, setCurrent] = useState<Testimony | null>(null)
+  const [loadFailed, setLoadFailed] = useState(false)
+  const [loadAttempt, setLoadAttempt] = useState(0)
+  const [isActing, setIsActing] = useState(false)
+  const [isNoteOpen, setIsNoteOpen] = useState(false)
+  const [isRejectOpen, setIsRejectOpen] = useState(false)
+
+  // Every id the queue has held, so refills only add new ones
+  const seen = useRef(new Set<string>())
+  // Detail requests by id, started early for the next testimony
+  const details = useRef(new Map<string, Promise<Testimony>>())
+  const isRefilling = useRef(false)
+
+  const { toast } = useToast()
+  const currentId = queue[index]
+  const nextId = queue[index + 1]
+
+  const fetchDetail = useCallback((id: string) => {
+    let request = details.current.get(id)
+    if (!request) {
+      request = getTestimony(id).then((result) => result.testimony)
+      request.catch(() => details.current.delete(id))
+      details.current.set(id, request)
+    }
+    return request
+  }, [])
+
+  // Acting on testimonies takes them out of PENDING and shifts the pages, so
+  // refills look from the first page for anything not yet seen
+  const refill = useCallback(async () => {
+    if (isRefilling.current) return
+    isRefilling.current = true
+    try {
+      for (let page = 1; ; page++) {
+        const result = await getTestimonies({ status: 'PENDING', page, limit: PAGE_SIZE })
+        setPendingTotal(result.pagination.total)
+        const fresh = result.testimonies.map((t) => t.id).filter((id) => !seen.current.has(id))
+        fresh.forEach((id) => seen.current.add(id))
+        if (fresh.length > 0) {
+          setQueue((q) => [...q, ...fresh])
+          return
+        }
+        if (page >= result.pagination.totalPages) {
+          setIsExhausted(true)
+          return
+        }
+      }
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to load pending testimonies',
+        variant: 'destructive',
+      })
+    } finally {
+      isRefilling.current = false
+      setIsLoadingQueue(false)
+    }
+  }, [toast])
+
+  useEffect(() => {
+    refill()
+  }, [refill])
+
+  useEffect(() => {
+    if (!isExhausted && !isLoadingQueue && queue.length - index <= REFILL_AT) refill()
+  }, [queue.length, index, isExhausted, isLoadingQueue, refill])
+
+  useEffect(() => {
+    setCurrent(null)
+    setLoadFailed(false)
+    setIsNoteOpen(false)
+    if (!currentId) return
+    let cancelled = false
+    fetchDetail(currentId)
+      .then((testimony) => {
+        if (!cancelled) setCurrent(testimony)
+      })
+      .catch(() => {
+        if (!cancelled) {
+          setLoadFailed(true)
+          toast({
+            title: 'Error',
+            description: 'Failed to load testimony details',
+            variant: 'destructive',
+          })
+        }
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [currentId, loadAttempt, fetchDetail, toast])
+
+  useEffect(() => {
+    if (nextId) fetchDetail(nextId).catch(() => {})
+  }, [nextId, fetchDetail])
+
+  // Leaves a testimony that won't load for later; it stays pending and comes
+  // back next time the queue is opened
+  const skipCurrent = () => {
+    details.current.delete(currentId)
+    setQueue((q) => q.filter((id) => id !== currentId))
+    setIndex((i) => Math.min(i, Math.max(queue.length - 2, 0)))
+  }
+
+  const removeCurrent = () => {
+    skipCurrent()
+    setPendingTotal((total) => Math.max(total - 1, 0))
+  }
+
+  const act = async (action: () => Promise<unknown>, description: string) => {
+    if (!current || isActing) return
+    setIsActing(true)
+    try {
+      await action()
+      toast({ title: 'Success', description, variant: 'success' })
+      setIsRejectOpen(false)
+      removeCurrent()
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to update testimony',
+        variant: 'destructive',
+      })
+    } finally {
+      setIsActing(false)
+    }
+  }
+
+  const handleApprove = () => current && act(() => updateTestimonyStatus(current.id, 'APPROVED'), 'Testimony approved')
+  const handleReject = (rejection: RejectionInput) => {
+    if (current) act(() => updateTestimonyStatus(current.id, 'REJECTED', rejection), 'Testimony rejected')
+  }
+  const handleDelete = () => {
+    if (!current || !confirm('Are you sure you want to delete this testimony?')) return
+    act(() => deleteTestimony(current.id), 'Testimony deleted')
+  }
+  const goNext = () => setIndex((i) => Math.min(i + 1, Math.max(queue.length - 1, 0)))
+  const goPrevious = () => setIndex((i) => Math.max(i - 1, 0))
+
+  const handleNoteAdded = (note: TestimonyNote) => {
+    if (!current) return
+    const updated = { ...current, notes: [...(current.notes ?? []), note] }
+    details.current.set(current.id, Promise.resolve(updated))
+    setCurrent(updated)
+    setIsNoteOpen(false)
+  }
+
+  // Re-bound every render so the handlers always see the current testimony;
+  // off while the reject dialog has the keyboard
+  const shortcuts = useRef<Record<string, () => void>>({})
+  shortcuts.current = isRejectOpen ? {} : {
+    a: handleApprove,
+    r: () => current && setIsRejectOpen(true),
+    j: goNext,
+    k: goPrevious,
+    d: handleDelete,
+    n: () => current && setIsNoteOpen(true),
+  }
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.defaultPrevented || e.metaKey || e.ctrlKey || e.altKey || isTyping(e.target)) return
+      const handler = shortcuts.current[e.key.toLowerCase()]
+      if (!handler) return
+      e.preventDefault()
+      handler()
+    }
+    window.addEventListener('keydown', onKeyDown)
+    return () => window.removeEventListener('keydown', onKeyDown)
+  }, [])
+
+  const mediaUrl = current ? getMediaUrl(current.mediaUrl) : null
+
+  return (
+    <div className="fixed inset-0 z-50 bg-white flex flex-col">
+      <header className="flex items-center justify-between gap-4 px-4 py-3 border-b">
+        <div className="flex items-center gap-3">
+          <Button variant="ghost" size="sm" asChild>
+            <Link href="/admin/testimonies">
+              <X className="h-4 w-4 me-2" />
+              Exit
+            </Link>
+          </Button>
+          <span className="font-semibold">Review queue</span>
+        </div>
+        {queue.length > 0 && (
+          <span className="text-sm text-gray-500 tabular-nums">
+            {index + 1} of {pendingTotal.toLocaleString()} pending
+          </span>
+        )}
+      </header>
+
+      <main className="flex-1 overflow-y-auto">
+        <div className="max-w-3xl mx-auto p-4 md:p-8 space-y-6">
+          {isLoadingQueue || (currentId && !current && !loadFailed) ? (
+            <div className="space-y-4">
+              <Skeleton className="h-6 w-1/3" />
+              <Skeleton className="h-4 w-1/2" />
+              <Skeleton className="h-48 w-full" />
+            </div>
+          ) : loadFailed ? (
+            <div className="text-center py-24 space-y-4">
+              <p className="text-lg font-medium">This testimony could not be loaded</p>
+              <div className="flex justify-center gap-2">
+                <Button variant="outline" onClick={() => setLoadAttempt((attempt) => attempt + 1)}>
+                  Retry
+                </Button>
+                <Button onClick={skipCurrent}>
+                  Skip
+                </Button>
+              </div>
+            </div>
+          ) : !current ? (
+            <div className="text-center py-24">
+              <CheckCircle2 className="h-12 w-12 text-green-600 mx-auto mb-4" />
+              <p className="text-lg font-medium">Nothing left to review</p>
+              <p className="text-gray-500">Every pending testimony has been handled.</p>
+            </div>
+          ) : (
+            <>
+              <div className="space-y-2">
+                <div className="flex flex-wrap items-center gap-2">
+                  {current.testimonyCategory?.name && <Badge variant="secondary">{current.testimonyCategory.name}</Badge>}
+                  <Badge variant="outline">
+                    {current.categoryType}
+                    {current.network && ` - ${current.network.name}`}
+                    {current.externalCategory && ` - ${current.externalCategory.name}`}
+                    {current.customNetwork && ` - ${current.customNetwork}`}
+                    {current.customExternal && ` - ${current.customExternal}`}
+                  </Badge>
+                  {current.publicationConsent === 'ANONYMOUS' && <Badge variant="outline">Public, anonymous</Badge>}
+                  {current.publicationConsent === 'INTERNAL' && <Badge variant="outline">Internal only</Badge>}
+                </div>
+                <h1 className="text-xl md:text-2xl font-semibold">{current.name}</h1>
+                <p className="text-sm text-gray-500">
+                  {[
+                    current.email,
+                    formatStoredPhone(current.phone, current.phoneCountryCode),
+                    current.country?.name,
+                    current.church,
+                    current.zone?.name,
+                  ].filter(Boolean).join(' · ')}
+                </p>
+                <p className="text-xs text-gray-400">Submitted {new Date(current.createdAt).toLocaleString()}</p>
+              </div>
+
+              {current.duplicateOfId && (
+                <div className="flex items-center gap-2 p-3 rounded-lg bg-amber-50 text-sm text-amber-800">
+                  <Copy className="h-4 w-4 flex-shrink-0" />
+                  Possible duplicate of an earlier testimony from the same person
+                </div>
+              )}
+
+              {current.contentType === 'TEXT' ? (
+                <p className="whitespace-pre-wrap text-base md:text-lg leading-relaxed">{current.textContent}</p>
+              ) : mediaUrl ? (
+                current.contentType === 'VIDEO' ? (
+                  <video
+                    key={current.id}
+                    src={mediaUrl}
+                    controls
+                    autoPlay
+                    playsInline
+                    className="w-full max-h-[60vh] rounded-lg bg-black"
+                    crossOrigin="use-credentials"
+                  />
+                ) : (
+                  <audio key={current.id} src={mediaUrl} controls autoPlay className="w-full" crossOrigin="use-credentials" />
+                )
+              ) : (
+                <p className="text-gray-500">Media not available</p>
+              )}
+
+              {current.attachments && current.attachments.length > 0 && (
+                <AttachmentGallery attachments={current.attachments} getUrl={(url) => getMediaUrl(url) || ''} />
+              )}
+
+              {((current.notes && current.notes.length > 0) || isNoteOpen) && (
+                <div className="pt-4 border-t space-y-3">
+                  <span className="text-sm text-gray-500">Notes</span>
+                  <TestimonyNotes
+                    testimonyId={current.id}
+                    notes={current.notes ?? []}
+                    onAdded={handleNoteAdded}
+                    showComposer={isNoteOpen}
+                    autoFocus
+                    onCancel={() => setIsNoteOpen(false)}
+                  />
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </main>
+
+      <footer className="border-t px-4 py-3 flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={goPrevious} disabled={index === 0}>
+            <ChevronLeft className="h-4 w-4 rtl:rotate-180" />
+          </Button>
+          <Button variant="outline" size="sm" onClick={goNext} disabled={index >= queue.length - 1}>
+            <ChevronRight className="h-4 w-4 rtl:rotate-180" />
+          </Button>
+          <div className="hidden md:flex items-center gap-3 ms-2 text-xs text-gray-500">
+            {SHORTCUTS.map(([key, label]) => (
+              <span key={key}>
+                <kbd className="px-1.5 py-0.5 rounded border bg-gray-50 font-mono">{key}</kbd> {label}
+              </span>
+            ))}
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" size="sm" onClick={() => setIsNoteOpen(true)} disabled={!current}>
+            <MessageSquarePlus className="h-4 w-4 me-2" />
+            Note
+          </Button>
+          <Button variant="destructive" size="sm" onClick={handleDelete} disabled={!current || isActing}>
+            <Trash2 className="h-4 w-4 me-2" />
+            Delete
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setIsRejectOpen(true)} disabled={!current || isActing}>
+            <XCircle className="h-4 w-4 me-2" />
+            Reject
+          </Button>
+          <Button size="sm" onClick={handleApprove} disabled={!current || isActing}>
+            {isActing ? <Loader2 className="h-4 w-4 me-2 animate-spin" /> : <CheckCircle2 className="h-4 w-4 me-2" />}
+            Approve
+          </Button>
+        </div>
+      </footer>
+
+      <RejectDialog
+        open={isRejectOpen}
+        onOpenChange={setIsRejectOpen}
+        description={current ? `Rejecting the testimony from ${current.name}` : ''}
+        isSubmitting={isActing}
+        onConfirm={handleReject}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,12 @@
+import { isChallengeAction } from '@/lib/challenge'
+import { issueChallenge } from '@/lib/challenge-server'
+
+export const dynamic = 'force-dynamic'
+
+export function GET(request: Request) {
+  const action = new URL(request.url).searchParams.get('action')
+  if (!isChallengeAction(action)) {
+    return Response.json({ error: 'Unknown action' }, { status: 400 })
+  }
+  return Response.json(issueChallenge(action), { headers: { 'Cache-Control': 'no-store' } })
+}
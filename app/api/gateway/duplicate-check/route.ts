@@ -0,0 +1,15 @@
+import type { NextRequest } from 'next/server'
+import { forwardVerified } from '@/lib/challenge-server'
+import type { DuplicateMatch } from '@/types'
+
+// The backend lists the matching testimonies; the browser only learns
+// whether there were any
+export async function POST(request: NextRequest) {
+  const response = await forwardVerified(request, 'duplicate', '/api/testimonies/duplicate-check')
+  if (!response.ok) return response
+  const result: { matches?: DuplicateMatch[] } | null = await response.json().catch(() => null)
+  if (!result) {
+    return Response.json({ error: 'Unexpected response from the server. Please try again.' }, { status: 502 })
+  }
+  return Response.json({ possibleDuplicate: !!result.matches?.length })
+}
@@ -0,0 +1,6 @@
+import type { NextRequest } from 'next/server'
+import { forwardVerified } from '@/lib/challenge-server'
+
+export function POST(request: NextRequest) {
+  return forwardVerified(request, 'group', '/api/groups')
+}
@@ -0,0 +1,12 @@
+import type { NextRequest } from 'next/server'
+import { forwardUploadSession } from '@/lib/challenge-server'
+
+export const dynamic = 'force-dynamic'
+
+export function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  return forwardUploadSession(request, params.id)
+}
+
+export function PUT(request: NextRequest, { params }: { params: { id: string } }) {
+  return forwardUploadSession(request, params.id)
+}
@@ -0,0 +1,12 @@
+import type { NextRequest } from 'next/server'
+import { forwardVerified, signUploadSession } from '@/lib/challenge-server'
+
+export async function POST(request: NextRequest) {
+  const response = await forwardVerified(request, 'upload', '/api/uploads')
+  if (!response.ok) return response
+  const session: { uploadId?: string; chunkSize?: number } | null = await response.json().catch(() => null)
+  if (!session?.uploadId) {
+    return Response.json({ error: 'Unexpected response from the server. Please try again.' }, { status: 502 })
+  }
+  return Response.json({ ...session, uploadToken: signUploadSession(session.uploadId) }, { status: response.status })
+}
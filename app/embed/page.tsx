@@ -0,0 +1,34 @@
+import type { Metadata } from 'next'
+import { TestimonyCarousel } from '@/components/testimony-carousel'
+import { parseEmbedOptions } from '@/lib/embed'
+import { getPublicTestimonyList } from '@/lib/server-api'
+import type { PublicTestimony } from '@/types'
+
+export const metadata: Metadata = {
+  title: 'Testimonies | A Billion Testimonies',
+  robots: { index: false },
+}
+
+// Loaded in an iframe on partner sites, either directly or via public/widget.js
+export default async function EmbedPage({
+  searchParams,
+}: {
+  searchParams: Record<string, string | string[] | undefined>
+}) {
+  const options = parseEmbedOptions(searchParams)
+
+  let testimonies: PublicTestimony[] = []
+  try {
+    testimonies = await getPublicTestimonyList({
+      limit: options.limit,
+      networkId: options.networkId,
+      externalCategoryId: options.externalCategoryId,
+      zoneId: options.zoneId,
+    })
+  } catch (error) {
+    // An empty widget is better than an error page on someone else's site
+    console.error(error)
+  }
+
+  return <TestimonyCarousel testimonies={testimonies} options={options} />
+}
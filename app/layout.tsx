@@ -1,10 +1,26 @@
-import type { Metadata } from 'next'
+import type { Metadata, Viewport } from 'next'
 import './globals.css'
 import { Toaster } from '@/components/ui/toaster'
+import { ServiceWorkerRegistration } from '@/components/service-worker'
+import { I18nProvider } from '@/lib/i18n/provider'
 
 export const metadata: Metadata = {
+  // Absolute base for share links and Open Graph images
+  metadataBase: new URL(process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3001'),
   title: 'A Billion Testimonies',
   description: 'Share your testimony with the world',
+  icons: {
+    apple: '/icons/icon-192.png',
+  },
+  appleWebApp: {
+    capable: true,
+    title: 'Testimonies',
+    statusBarStyle: 'black-translucent',
+  },
+}
+
+export const viewport: Viewport = {
+  themeColor: '#1a1a2e',
 }
 
 export default function RootLayout({
@@ -15,8 +31,11 @@ export default function RootLayout({
   return (
     <html lang="en">
       <body className="font-sans overflow-x-hidden">
-        {children}
+        <I18nProvider>
+          {children}
+        </I18nProvider>
         <Toaster />
+        <ServiceWorkerRegistration />
       </body>
     </html>
   )
@@ -0,0 +1,36 @@
+"use client"
+
+import { Header } from '@/components/header'
+import { Button } from '@/components/ui/button'
+import { useI18n } from '@/lib/i18n/provider'
+import { WifiOff, RefreshCw } from 'lucide-react'
+
+// Served by the service worker when a page isn't cached and there's no connection
+export default function OfflinePage() {
+  const { t } = useI18n()
+
+  return (
+    <div className="min-h-screen bg-white">
+      <Header />
+
+      <div className="container mx-auto px-4 py-12 md:py-16 max-w-md text-center">
+        <div className="mb-4 md:mb-6">
+          <WifiOff className="w-12 h-12 md:w-16 md:h-16 text-gray-400 mx-auto" />
+        </div>
+        <h1 className="text-xl md:text-2xl font-semibold mb-2">{t('offline.title')}</h1>
+        <p className="text-gray-600 mb-6 md:mb-8 text-sm md:text-base">
+          {t('offline.description')}
+        </p>
+        <div className="flex flex-col sm:flex-row justify-center gap-3">
+          <Button variant="outline" onClick={() => window.location.reload()}>
+            <RefreshCw className="w-4 h-4 mr-2" />
+            {t('common.tryAgain')}
+          </Button>
+          <Button asChild className="bg-[#1a1a2e] hover:bg-[#2a2a4e]">
+            <a href="/submit">{t('header.shareTestimony')}</a>
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
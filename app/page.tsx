@@ -1,5 +1,131 @@
-import { redirect } from 'next/navigation'
+import Link from 'next/link'
+import { Header } from '@/components/header'
+import { CountUp } from '@/components/count-up'
+import { TestimonyCard } from '@/components/testimony-card'
+import { Button } from '@/components/ui/button'
+import { Progress } from '@/components/ui/progress'
+import { getPublicStats, getPublicTestimonyList } from '@/lib/server-api'
+import type { PublicStats, PublicTestimony } from '@/types'
+import { ArrowRight, Globe, PenLine, TrendingUp } from 'lucide-react'
 
-export default function Home() {
-  redirect('/submit')
+// Re-rendered in the background at most once a minute
+export const revalidate = 60
+
+const GOAL = 1_000_000_000
+const FEATURED_COUNT = 6
+
+export default async function Home() {
+  // The page still renders (without the numbers) if the API is unreachable,
+  // including at build time
+  const [stats, featured] = await Promise.all([
+    getPublicStats().catch((error): PublicStats | null => {
+      console.error(error)
+      return null
+    }),
+    getPublicTestimonyList({ limit: FEATURED_COUNT }).catch((error): PublicTestimony[] => {
+      console.error(error)
+      return []
+    }),
+  ])
+
+  const goalPercent = stats ? (stats.total / GOAL) * 100 : 0
+
+  return (
+    <div className="min-h-screen bg-white">
+      <Header />
+
+      {/* Hero */}
+      <section className="bg-[#1a1a2e] text-white">
+        <div className="container mx-auto px-4 py-12 md:py-20 max-w-5xl text-center">
+          <h1 className="text-3xl md:text-5xl font-semibold mb-4">A Billion Testimonies</h1>
+          <p className="text-white/70 md:text-lg max-w-2xl mx-auto mb-8">
+            Every testimony is a story of what God has done. Share yours and join believers around the
+            world on the way to a billion.
+          </p>
+          <div className="flex flex-col sm:flex-row gap-3 justify-center">
+            <Button asChild size="lg" className="bg-white text-[#1a1a2e] hover:bg-white/90">
+              <Link href="/submit">
+                <PenLine className="w-4 h-4 mr-2" />
+                Share Your Testimony
+              </Link>
+            </Button>
+            <Button asChild size="lg" variant="outline" className="bg-transparent text-white border-white/30 hover:bg-white/10 hover:text-white">
+              <Link href="/testimonies">Read Testimonies</Link>
+            </Button>
+          </div>
+        </div>
+      </section>
+
+      {/* Counters */}
+      {stats && (
+        <section className="border-b">
+          <div className="container mx-auto px-4 py-10 md:py-14 max-w-5xl">
+            <div className="grid gap-6 sm:grid-cols-3 text-center">
+              <div>
+                <p className="text-3xl md:text-4xl font-semibold tabular-nums"><CountUp value={stats.total} /></p>
+                <p className="text-sm text-gray-500 mt-1">testimonies shared</p>
+              </div>
+              <div>
+                <p className="text-3xl md:text-4xl font-semibold tabular-nums flex items-center justify-center gap-2">
+                  <TrendingUp className="w-6 h-6 text-green-600" />
+                  <CountUp value={stats.thisWeek} />
+                </p>
+                <p className="text-sm text-gray-500 mt-1">this week</p>
+              </div>
+              <div>
+                <p className="text-3xl md:text-4xl font-semibold tabular-nums flex items-center justify-center gap-2">
+                  <Globe className="w-6 h-6 text-blue-600" />
+                  <CountUp value={stats.countries} />
+                </p>
+                <p className="text-sm text-gray-500 mt-1">countries reached</p>
+              </div>
+            </div>
+
+            <div className="mt-8 max-w-2xl mx-auto">
+              <div className="flex justify-between text-xs text-gray-500 mb-2">
+                <span>Progress to a billion</span>
+                {/* Early on the share is tiny, so show enough decimals for it to move */}
+                <span>{goalPercent < 1 ? goalPercent.toFixed(4) : goalPercent.toFixed(1)}%</span>
+              </div>
+              <Progress value={Math.max(goalPercent, 0.5)} className="h-2" />
+            </div>
+          </div>
+        </section>
+      )}
+
+      {/* Featured testimonies */}
+      {featured.length > 0 && (
+        <section className="bg-gray-50">
+          <div className="container mx-auto px-4 py-10 md:py-14 max-w-6xl">
+            <div className="flex items-end justify-between gap-4 mb-6">
+              <div>
+                <h2 className="text-xl md:text-2xl font-semibold">Recent testimonies</h2>
+                <p className="text-sm text-gray-500">From believers around the world</p>
+              </div>
+              <Link href="/testimonies" className="text-sm font-medium text-[#1a1a2e] hover:underline flex items-center gap-1 flex-shrink-0">
+                See all
+                <ArrowRight className="w-4 h-4 rtl:rotate-180" />
+              </Link>
+            </div>
+            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3 items-start">
+              {featured.map((testimony) => (
+                <TestimonyCard key={testimony.id} testimony={testimony} />
+              ))}
+            </div>
+          </div>
+        </section>
+      )}
+
+      {/* Closing call to action */}
+      <section>
+        <div className="container mx-auto px-4 py-12 md:py-16 max-w-3xl text-center">
+          <h2 className="text-xl md:text-2xl font-semibold mb-2">What has God done for you?</h2>
+          <p className="text-gray-600 mb-6">Write it, record a video or send a voice note - it only takes a few minutes.</p>
+          <Button asChild size="lg" className="bg-[#1a1a2e] hover:bg-[#2a2a4e]">
+            <Link href="/submit">Share Your Testimony</Link>
+          </Button>
+        </div>
+      </section>
+    </div>
+  )
 }
@@ -0,0 +1,14 @@
+import type { Metadata } from 'next'
+
+export const metadata: Metadata = {
+  title: 'Privacy Policy | A Billion Testimonies',
+  description: 'What happens to the details you share with a testimony',
+}
+
+export default function PrivacyLayout({
+  children,
+}: {
+  children: React.ReactNode
+}) {
+  return children
+}
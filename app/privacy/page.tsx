@@ -0,0 +1,36 @@
+"use client"
+
+import { Header } from '@/components/header'
+import { useI18n } from '@/lib/i18n/provider'
+import type { MessageKey } from '@/lib/i18n'
+
+const SECTIONS: [MessageKey, MessageKey][] = [
+  ['privacy.collectTitle', 'privacy.collect'],
+  ['privacy.useTitle', 'privacy.use'],
+  ['privacy.shareTitle', 'privacy.share'],
+  ['privacy.rightsTitle', 'privacy.rights'],
+]
+
+// Linked from the consent section of the submit wizard
+export default function PrivacyPage() {
+  const { t } = useI18n()
+
+  return (
+    <div className="min-h-screen bg-white">
+      <Header />
+
+      <div className="container mx-auto px-4 py-10 md:py-14 max-w-2xl">
+        <h1 className="text-2xl md:text-3xl font-semibold mb-3">{t('privacy.title')}</h1>
+        <p className="text-gray-600 mb-8">{t('privacy.intro')}</p>
+        <div className="space-y-6">
+          {SECTIONS.map(([title, body]) => (
+            <section key={title}>
+              <h2 className="font-medium text-lg mb-1">{t(title)}</h2>
+              <p className="text-gray-600 text-sm md:text-base">{t(body)}</p>
+            </section>
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
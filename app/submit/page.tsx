@@ -1,24 +1,42 @@
 "use client"
 
-import { useState, useEffect, useCallback } from 'react'
+import { useState, useEffect, useCallback, useRef } from 'react'
 import { useRouter } from 'next/navigation'
+import Image from 'next/image'
 import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { z } from 'zod'
 import { Header } from '@/components/header'
+import { UploadProgress } from '@/components/upload-progress'
+import { MediaRecorderPanel, isRecordingSupported } from '@/components/media-recorder'
+import { MediaCompressor } from '@/components/media-compressor'
+import { MediaPreview, describeMedia } from '@/components/media-preview'
+import { AttachmentPicker } from '@/components/attachment-picker'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Textarea } from '@/components/ui/textarea'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group'
+import { Checkbox } from '@/components/ui/checkbox'
 import { useToast } from '@/hooks/use-toast'
-import { getNetworks, getExternalCategories, getTestimonyCategories, getZones, getCountries, getGroups, createGroup, submitTestimony } from '@/lib/api'
-import type { Network, ExternalCategory, TestimonyCategory, Region, Country, Group, CategoryType, ContentType } from '@/types'
-import { FileText, Video, Mic, Upload, ArrowLeft, ArrowRight, Check, Loader2, AlertCircle, RefreshCw } from 'lucide-react'
-import { cn } from '@/lib/utils'
+import { getNetworks, getExternalCategories, getTestimonyCategories, getZones, getCountries, getUploadLimits, DEFAULT_UPLOAD_LIMITS, getGroups, createGroup, submitTestimony, checkDuplicateTestimony, isNetworkError } from '@/lib/api'
+import { findUpload, getInterruptedUpload, getFileFingerprint, getMediaHash, type StoredUpload } from '@/lib/upload'
+import { loadDraft, saveDraft, loadDraftFile, saveDraftFile, loadDraftAttachments, saveDraftAttachments, clearDraft, getSubmissionKey, type SubmitDraft } from '@/lib/draft'
+import { queueSubmission } from '@/lib/outbox'
+import { isCompressionSupported } from '@/lib/compress'
+import { getErrorMessage } from '@/lib/errors'
+import { probeMedia, getDurationLimits, type MediaInfo } from '@/lib/media'
+import { getPhoneRegion, isValidPhone, toE164, formatPhoneAsYouType, formatStoredPhone } from '@/lib/phone'
+import { useI18n } from '@/lib/i18n/provider'
+import type { MessageKey } from '@/lib/i18n'
+import type { Network, ExternalCategory, TestimonyCategory, Region, Country, Group, CategoryType, ContentType, TestimonyInput, UploadLimits, PublicationConsent } from '@/types'
+import { FileText, Video, Mic, Upload, ArrowLeft, ArrowRight, Check, Loader2, AlertCircle, RefreshCw, Circle } from 'lucide-react'
+import { cn, formatBytes } from '@/lib/utils'
 
+// Messages are catalog keys, translated where the errors are shown
 const formSchema = z.object({
-  testimonyCategoryId: z.string().min(1, 'Testimony type is required'),
+  testimonyCategoryId: z.string().min(1, 'validation.testimonyTypeRequired'),
   categoryType: z.enum(['NETWORK', 'EXTERNAL', 'REGION']),
   networkId: z.string().optional(),
   customNetwork: z.string().optional(),
@@ -27,20 +45,35 @@ const formSchema = z.object({
   zoneId: z.string().optional(),
   groupId: z.string().optional(),
   newGroupName: z.string().optional(),
-  name: z.string().min(2, 'Name must be at least 2 characters'),
-  email: z.string().email('Invalid email address'),
-  countryId: z.string().min(1, 'Country is required'),
-  phoneCountryCode: z.string().min(1, 'Country code is required'),
-  phone: z.string().min(6, 'Invalid phone number'),
+  name: z.string().min(2, 'validation.nameMin'),
+  email: z.string().email('validation.emailInvalid'),
+  countryId: z.string().min(1, 'validation.countryRequired'),
+  // ISO code of the selected country, used to check the phone number
+  countryCode: z.string().optional(),
+  phoneCountryCode: z.string().min(1, 'validation.countryCodeRequired'),
+  phone: z.string().min(6, 'validation.phoneInvalid'),
   church: z.string().optional(),
   kingschatUsername: z.string().optional(),
   contentType: z.enum(['TEXT', 'VIDEO', 'AUDIO']),
   textContent: z.string().optional(),
+  publicationConsent: z.enum(['PUBLIC', 'ANONYMOUS', 'INTERNAL']).optional(),
+  contactConsent: z.boolean(),
+  privacyAccepted: z.boolean(),
+}).superRefine((data, ctx) => {
+  if (!isValidPhone(data.phone, getPhoneRegion(data.countryCode, data.phoneCountryCode))) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['phone'], message: 'validation.phoneInvalid' })
+  }
 })
 
 type FormData = z.infer<typeof formSchema>
 
-const STEPS = ['Category', 'Details', 'Personal Info', 'Testimony', 'Review']
+const STEPS: MessageKey[] = ['steps.category', 'steps.details', 'steps.personal', 'steps.testimony', 'steps.review']
+
+const PUBLICATION_OPTIONS: { value: PublicationConsent; label: MessageKey; description: MessageKey }[] = [
+  { value: 'PUBLIC', label: 'consent.public', description: 'consent.publicDescription' },
+  { value: 'ANONYMOUS', label: 'consent.anonymous', description: 'consent.anonymousDescription' },
+  { value: 'INTERNAL', label: 'consent.internal', description: 'consent.internalDescription' },
+]
 
 // Skeleton component for loading states
 function Skeleton({ className }: { className?: string }) {
@@ -57,13 +90,34 @@ export default function SubmitPage() {
   const [zones, setZones] = useState<Region[]>([])
   const [countries, setCountries] = useState<Country[]>([])
   const [groups, setGroups] = useState<Group[]>([])
+  const [uploadLimits, setUploadLimits] = useState<UploadLimits>(DEFAULT_UPLOAD_LIMITS)
   const [file, setFile] = useState<File | null>(null)
+  const [attachments, setAttachments] = useState<File[]>([])
+  const [interruptedUpload, setInterruptedUpload] = useState<StoredUpload | null>(null)
+  const [mediaSource, setMediaSource] = useState<'upload' | 'record'>('upload')
+  const [canRecord, setCanRecord] = useState(false)
+  const [canCompress, setCanCompress] = useState(false)
+  const [oversizedFile, setOversizedFile] = useState<File | null>(null)
+  const [mediaInfo, setMediaInfo] = useState<MediaInfo | null>(null)
+  const [isProbing, setIsProbing] = useState(false)
+  const probeId = useRef(0)
+  const [mediaHash, setMediaHash] = useState<string | null>(null)
+  const [isPossibleDuplicate, setIsPossibleDuplicate] = useState(false)
+
+  // Draft states - autosave stays off until any saved draft has been restored or discarded
+  const [pendingDraft, setPendingDraft] = useState<SubmitDraft<FormData> | null>(null)
+  const [isDraftReady, setIsDraftReady] = useState(false)
+  const savedDraftFile = useRef<File | null>(null)
+  const savedDraftAttachments = useRef<File[]>([])
+  const keepGroupOnZoneChange = useRef(false)
 
   // Loading states
   const [isInitialLoading, setIsInitialLoading] = useState(true)
   const [isLoadingGroups, setIsLoadingGroups] = useState(false)
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [isCreatingGroup, setIsCreatingGroup] = useState(false)
+  const [uploadProgress, setUploadProgress] = useState<{ uploaded: number; total: number } | null>(null)
+  const uploadController = useRef<AbortController | null>(null)
 
   // Error states
   const [initialLoadError, setInitialLoadError] = useState<string | null>(null)
@@ -71,12 +125,18 @@ export default function SubmitPage() {
 
   const router = useRouter()
   const { toast } = useToast()
+  const { locale, t } = useI18n()
+  // The loaders below only depend on toast so that switching language doesn't refetch
+  const tRef = useRef(t)
+  tRef.current = t
 
   const form = useForm<FormData>({
     resolver: zodResolver(formSchema),
     defaultValues: {
       categoryType: 'NETWORK',
       contentType: 'TEXT',
+      contactConsent: false,
+      privacyAccepted: false,
     },
   })
 
@@ -88,7 +148,11 @@ export default function SubmitPage() {
   const networkId = watch('networkId') || ''
   const externalCategoryId = watch('externalCategoryId') || ''
   const groupId = watch('groupId') || ''
+  const publicationConsent = watch('publicationConsent')
+  const contactConsent = watch('contactConsent')
+  const privacyAccepted = watch('privacyAccepted')
   const countryId = watch('countryId') || ''
+  const phone = watch('phone') || ''
 
   // Load initial data
   const loadInitialData = useCallback(async () => {
@@ -108,9 +172,9 @@ export default function SubmitPage() {
       setZones(z)
       setCountries(c)
     } catch (err) {
-      const message = err instanceof Error ? err.message : 'Failed to load data'
+      const message = getErrorMessage(err, tRef.current, 'errors.loadData')
       setInitialLoadError(message)
-      toast({ title: 'Error', description: message, variant: 'destructive' })
+      toast({ title: tRef.current('common.error'), description: message, variant: 'destructive' })
     } finally {
       setIsInitialLoading(false)
     }
@@ -120,6 +184,20 @@ export default function SubmitPage() {
     loadInitialData()
   }, [loadInitialData])
 
+  // Kept out of the initial load so text testimonies still work without it
+  useEffect(() => {
+    getUploadLimits()
+      .then((limits) => setUploadLimits({ ...DEFAULT_UPLOAD_LIMITS, ...limits }))
+      .catch(console.error)
+  }, [])
+
+  // Offer to continue a media upload that was cut off on a previous visit
+  useEffect(() => {
+    setInterruptedUpload(getInterruptedUpload())
+    setCanRecord(isRecordingSupported())
+    setCanCompress(isCompressionSupported())
+  }, [])
+
   // Load groups when zone changes
   const loadGroups = useCallback(async (zoneIdValue: string) => {
     setIsLoadingGroups(true)
@@ -129,9 +207,9 @@ export default function SubmitPage() {
       const loadedGroups = await getGroups(zoneIdValue)
       setGroups(loadedGroups)
     } catch (err) {
-      const message = err instanceof Error ? err.message : 'Failed to load groups'
+      const message = getErrorMessage(err, tRef.current, 'errors.loadGroups')
       setGroupsError(message)
-      toast({ title: 'Error', description: message, variant: 'destructive' })
+      toast({ title: tRef.current('common.error'), description: message, variant: 'destructive' })
     } finally {
       setIsLoadingGroups(false)
     }
@@ -140,36 +218,179 @@ export default function SubmitPage() {
   useEffect(() => {
     if (zoneId) {
       loadGroups(zoneId)
+      // A restored draft sets zone and group together; don't wipe the group
+      if (keepGroupOnZoneChange.current) {
+        keepGroupOnZoneChange.current = false
+        return
+      }
       setValue('groupId', undefined)
       setValue('newGroupName', undefined)
     }
   }, [zoneId, loadGroups, setValue])
 
+  // Look for an unfinished submission from a previous visit
+  useEffect(() => {
+    const draft = loadDraft<FormData>()
+    if (draft && (draft.step > 0 || draft.hasFile || draft.values.testimonyCategoryId)) {
+      setPendingDraft(draft)
+    } else {
+      setIsDraftReady(true)
+    }
+  }, [])
+
+  // Autosave form values and step as the submitter goes
+  useEffect(() => {
+    if (!isDraftReady) return
+    let timeoutId: ReturnType<typeof setTimeout>
+    const persist = () => {
+      clearTimeout(timeoutId)
+      timeoutId = setTimeout(() => saveDraft<FormData>(form.getValues(), step, !!file), 500)
+    }
+    persist()
+    const subscription = watch(persist)
+    return () => {
+      subscription.unsubscribe()
+      clearTimeout(timeoutId)
+    }
+  }, [isDraftReady, form, watch, step, file])
+
+  useEffect(() => {
+    if (!isDraftReady || savedDraftFile.current === file) return
+    savedDraftFile.current = file
+    saveDraftFile(file)
+  }, [isDraftReady, file])
+
+  useEffect(() => {
+    if (!isDraftReady || savedDraftAttachments.current === attachments) return
+    savedDraftAttachments.current = attachments
+    saveDraftAttachments(attachments)
+  }, [isDraftReady, attachments])
+
+  useEffect(() => {
+    setMediaHash(null)
+    if (!file) return
+    let cancelled = false
+    getMediaHash(file)
+      .then((hash) => { if (!cancelled) setMediaHash(hash) })
+      .catch(console.error)
+    return () => { cancelled = true }
+  }, [file])
+
+  // Warn on the Review step if this looks like something they've sent before.
+  // Best effort only - it never blocks submitting.
+  useEffect(() => {
+    if (step !== 4) return
+    const values = form.getValues()
+    let cancelled = false
+    checkDuplicateTestimony({
+      email: values.email,
+      phone: toE164(values.phone, getPhoneRegion(values.countryCode, values.phoneCountryCode)) ?? values.phone,
+      textContent: values.contentType === 'TEXT' ? values.textContent : undefined,
+      mediaHash: values.contentType !== 'TEXT' ? mediaHash ?? undefined : undefined,
+    })
+      .then((found) => { if (!cancelled) setIsPossibleDuplicate(found) })
+      .catch(() => { if (!cancelled) setIsPossibleDuplicate(false) })
+    return () => { cancelled = true }
+  }, [step, mediaHash, form])
+
+  const handleRestoreDraft = async () => {
+    if (!pendingDraft) return
+    const draftFile = pendingDraft.hasFile ? await loadDraftFile() : null
+    const draftType = pendingDraft.values.contentType
+    const needsFile = !!draftType && draftType !== 'TEXT'
+    // A saved file that no longer passes the checks is dropped rather than restored
+    const restoredInfo = draftFile && needsFile ? await probeMedia(draftFile, draftType, getDurationLimits(uploadLimits, draftType)).catch(() => null) : null
+    const restoredFile = restoredInfo ? draftFile : null
+    const restoredAttachments = await loadDraftAttachments()
+
+    keepGroupOnZoneChange.current = !!pendingDraft.values.zoneId && pendingDraft.values.zoneId !== zoneId
+    form.reset({ ...form.getValues(), ...pendingDraft.values })
+    savedDraftFile.current = restoredFile
+    setFile(restoredFile)
+    setMediaInfo(restoredInfo)
+    savedDraftAttachments.current = restoredAttachments
+    setAttachments(restoredAttachments)
+    // Send them back to the Testimony step if the media couldn't be kept
+    setStep(needsFile && !restoredFile ? Math.min(pendingDraft.step, 3) : pendingDraft.step)
+    setPendingDraft(null)
+    setIsDraftReady(true)
+  }
+
+  const handleDiscardDraft = () => {
+    clearDraft()
+    setPendingDraft(null)
+    setIsDraftReady(true)
+  }
+
   // Computed values
   const selectedCountry = countries.find(c => c.id === countryId)
+  const phoneRegion = getPhoneRegion(selectedCountry?.code, selectedCountry?.phoneCode)
   const selectedZone = zones.flatMap(r => r.zones).find(z => z.id === zoneId)
   const selectedGroup = groups.find(g => g.id === groupId)
   const selectedNetwork = networks.find(n => n.id === networkId)
   const selectedExternalCategory = externalCategories.find(c => c.id === externalCategoryId)
   const selectedTestimonyCategory = testimonyCategories.find(c => c.id === testimonyCategoryId)
   const allZones = zones.flatMap(r => r.zones)
+  const resumableUpload = file ? findUpload(file) : null
+  const maxFileSize = {
+    VIDEO: uploadLimits.maxVideoFileSize,
+    AUDIO: uploadLimits.maxAudioFileSize,
+  }
+  const isStorageFull = uploadLimits.usagePercent >= 100
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFile = e.target.files?.[0]
-    if (selectedFile) {
-      const maxSize = contentType === 'VIDEO' ? 100 * 1024 * 1024 : 20 * 1024 * 1024
+    if (selectedFile && contentType !== 'TEXT') {
+      const maxSize = maxFileSize[contentType]
+      setOversizedFile(null)
       if (selectedFile.size > maxSize) {
+        if (canCompress) {
+          setOversizedFile(selectedFile)
+          return
+        }
         toast({
-          title: 'File too large',
-          description: `Maximum size is ${contentType === 'VIDEO' ? '100MB' : '20MB'}`,
+          title: t('errors.fileTooLarge'),
+          description: t('errors.maxSize', { size: formatBytes(maxSize) }),
           variant: 'destructive',
         })
         return
       }
-      setFile(selectedFile)
+      acceptMediaFile(selectedFile)
     }
   }
 
+  // Only use a file once the browser has played it and it's within the length limits
+  const acceptMediaFile = async (candidate: File) => {
+    if (contentType === 'TEXT') return
+    const id = ++probeId.current
+    setIsProbing(true)
+    try {
+      const info = await probeMedia(candidate, contentType, getDurationLimits(uploadLimits, contentType))
+      if (id !== probeId.current) return
+      setFile(candidate)
+      setMediaInfo(info)
+    } catch (err) {
+      if (id !== probeId.current) return
+      toast({
+        title: t('errors.cannotUseFile'),
+        description: getErrorMessage(err, t, 'errors.fileUnreadable'),
+        variant: 'destructive',
+      })
+    } finally {
+      if (id === probeId.current) setIsProbing(false)
+    }
+  }
+
+  const handleCompressed = (compressedFile: File) => {
+    setOversizedFile(null)
+    acceptMediaFile(compressedFile)
+  }
+
+  const handleRecorded = (recordedFile: File) => {
+    setMediaSource('upload')
+    acceptMediaFile(recordedFile)
+  }
+
   const canProceed = () => {
     const hasGroup = (groupId && groupId !== 'new') || !!watch('newGroupName')
     const hasChurch = !!watch('church')
@@ -181,19 +402,30 @@ export default function SubmitPage() {
         if (categoryType === 'EXTERNAL') return !!externalCategoryId || !!watch('customExternal')
         if (categoryType === 'REGION') return !!zoneId && hasGroup && hasChurch
         return false
-      case 2: return !!watch('name') && !!watch('email') && !!countryId && !!watch('phone')
-      case 3: return contentType === 'TEXT' ? !!watch('textContent') : !!file
+      case 2: return !!watch('name') && !!watch('email') && !!countryId && !!phone
+      case 3: return contentType === 'TEXT' ? !!watch('textContent') : !!file && !!mediaInfo && !isProbing && !isStorageFull
       default: return true
     }
   }
 
-  const handleNext = () => step < STEPS.length - 1 && setStep(step + 1)
+  const handleNext = async () => {
+    if (step >= STEPS.length - 1) return
+    if (step === 2 && !(await form.trigger(['name', 'email', 'countryId', 'phone']))) return
+    setStep(step + 1)
+  }
   const handleBack = () => step > 0 && setStep(step - 1)
 
+  const handleCancelUpload = () => uploadController.current?.abort()
+
   const handleSubmit = async () => {
+    const data = form.getValues()
+    // Nothing goes out without these, whatever the button state
+    if (!data.publicationConsent || !data.privacyAccepted) return
+
     setIsSubmitting(true)
+    const controller = new AbortController()
+    uploadController.current = controller
     try {
-      const data = form.getValues()
       let finalGroupId = data.groupId
 
       // Create new group if needed
@@ -204,8 +436,8 @@ export default function SubmitPage() {
           finalGroupId = newGroup.id
         } catch (err) {
           toast({
-            title: 'Failed to create group',
-            description: err instanceof Error ? err.message : 'Please try again',
+            title: t('errors.createGroup'),
+            description: getErrorMessage(err, t, 'errors.pleaseTryAgain'),
             variant: 'destructive'
           })
           return
@@ -214,7 +446,7 @@ export default function SubmitPage() {
         }
       }
 
-      await submitTestimony({
+      const payload: TestimonyInput = {
         testimonyCategoryId: data.testimonyCategoryId,
         categoryType: data.categoryType as CategoryType,
         networkId: data.categoryType === 'NETWORK' && networkId !== 'other' ? data.networkId : undefined,
@@ -225,22 +457,57 @@ export default function SubmitPage() {
         groupId: data.categoryType === 'REGION' && finalGroupId !== 'new' ? finalGroupId : undefined,
         name: data.name,
         email: data.email,
-        phone: data.phone,
+        phone: toE164(data.phone, phoneRegion) ?? data.phone,
         phoneCountryCode: data.phoneCountryCode,
         countryId: data.countryId,
         church: data.categoryType === 'REGION' ? data.church : undefined,
         kingschatUsername: data.kingschatUsername,
         contentType: data.contentType as ContentType,
         textContent: data.contentType === 'TEXT' ? data.textContent : undefined,
-      }, file || undefined)
+        publicationConsent: data.publicationConsent,
+        contactConsent: data.contactConsent,
+        privacyAccepted: data.privacyAccepted,
+        locale,
+        mediaHash: file ? mediaHash ?? await getMediaHash(file).catch(() => undefined) : undefined,
+      }
+      const idempotencyKey = getSubmissionKey()
 
+      try {
+        await submitTestimony(payload, file || undefined, attachments, {
+          idempotencyKey,
+          signal: controller.signal,
+          onProgress: (uploaded, total) => setUploadProgress({ uploaded, total }),
+        })
+      } catch (err) {
+        if (!isNetworkError(err)) throw err
+        // No connection - hand it to the service worker to send once back online
+        try {
+          await queueSubmission(payload, file || undefined, attachments, idempotencyKey)
+        } catch {
+          throw err
+        }
+        setIsDraftReady(false)
+        clearDraft()
+        router.push('/submit/success?queued=1')
+        return
+      }
+
+      setIsDraftReady(false)
+      clearDraft()
       router.push('/submit/success')
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Please try again'
+      if (error instanceof Error && error.name === 'AbortError' && controller.signal.aborted) {
+        toast({
+          title: t('errors.uploadCancelled'),
+          description: t('errors.uploadCancelledDescription'),
+        })
+        return
+      }
+      const errorMessage = getErrorMessage(error, t, 'errors.pleaseTryAgain')
       // Show each validation error on a new line
       const formattedMessage = errorMessage.split('\n').map(line => `• ${line}`).join('\n')
       toast({
-        title: 'Submission failed',
+        title: t('errors.submissionFailed'),
         description: (
           <pre className="whitespace-pre-wrap text-sm font-sans">{formattedMessage}</pre>
         ),
@@ -249,6 +516,8 @@ export default function SubmitPage() {
       })
     } finally {
       setIsSubmitting(false)
+      setUploadProgress(null)
+      uploadController.current = null
     }
   }
 
@@ -291,27 +560,27 @@ export default function SubmitPage() {
           <div className="container mx-auto px-4 text-center">
             <div className="inline-flex items-center gap-2 px-4 py-1.5 rounded-full bg-white/10 backdrop-blur-sm border border-white/10 mb-6">
               <span className="w-2 h-2 rounded-full bg-emerald-400 animate-pulse" />
-              <span className="text-xs md:text-sm text-white/70 font-medium tracking-wide uppercase">Share Your Story</span>
+              <span className="text-xs md:text-sm text-white/70 font-medium tracking-wide uppercase">{t('hero.badge')}</span>
             </div>
             <h1 className="text-3xl md:text-5xl lg:text-6xl font-bold text-white mb-4 tracking-tight">
-              A Billion Testimonies
+              {t('hero.title')}
               <span className="block mt-1 md:mt-2 bg-gradient-to-r from-amber-200 via-yellow-300 to-amber-200 bg-clip-text text-transparent">
-                & More
+                {t('hero.titleAccent')}
               </span>
             </h1>
             <p className="text-white/50 text-base md:text-lg max-w-md mx-auto leading-relaxed">
-              Join millions sharing testimonies of God&apos;s faithfulness across the world
+              {t('hero.subtitle')}
             </p>
           </div>
         </div>
         <div className="container mx-auto px-4 py-6 md:py-8 max-w-2xl">
           <div className="bg-white border rounded-lg p-6 md:p-8 text-center">
             <AlertCircle className="w-12 h-12 text-red-500 mx-auto mb-4" />
-            <h2 className="text-lg font-medium mb-2">Failed to load form</h2>
+            <h2 className="text-lg font-medium mb-2">{t('errors.loadFormTitle')}</h2>
             <p className="text-gray-500 mb-6 text-sm md:text-base">{initialLoadError}</p>
             <Button onClick={loadInitialData} className="bg-[#1a1a2e] hover:bg-[#2a2a4e]">
-              <RefreshCw className="w-4 h-4 mr-2" />
-              Try Again
+              <RefreshCw className="w-4 h-4 me-2" />
+              {t('common.tryAgain')}
             </Button>
           </div>
         </div>
@@ -338,26 +607,46 @@ export default function SubmitPage() {
             {/* Badge */}
             <div className="inline-flex items-center gap-2 px-4 py-1.5 rounded-full bg-white/10 backdrop-blur-sm border border-white/10 mb-6">
               <span className="w-2 h-2 rounded-full bg-emerald-400 animate-pulse" />
-              <span className="text-xs md:text-sm text-white/70 font-medium tracking-wide uppercase">Share Your Story</span>
+              <span className="text-xs md:text-sm text-white/70 font-medium tracking-wide uppercase">{t('hero.badge')}</span>
             </div>
 
             {/* Main Title */}
             <h1 className="text-3xl md:text-5xl lg:text-6xl font-bold text-white mb-4 tracking-tight">
-              A Billion Testimonies
+              {t('hero.title')}
               <span className="block mt-1 md:mt-2 bg-gradient-to-r from-amber-200 via-yellow-300 to-amber-200 bg-clip-text text-transparent">
-                & More
+                {t('hero.titleAccent')}
               </span>
             </h1>
 
             {/* Subtitle */}
             <p className="text-white/50 text-base md:text-lg max-w-md mx-auto leading-relaxed">
-              Join millions sharing testimonies of God&apos;s faithfulness across the world
+              {t('hero.subtitle')}
             </p>
           </div>
         </div>
       </div>
 
       <div className="container mx-auto px-4 py-6 md:py-8 max-w-2xl">
+        {/* Saved draft prompt */}
+        {pendingDraft && (
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-3 md:p-4 mb-6 rounded-lg border border-blue-200 bg-blue-50">
+            <div className="text-sm">
+              <p className="font-medium text-blue-900">{t('draft.title')}</p>
+              <p className="text-xs md:text-sm text-blue-700">
+                {t('draft.description', { date: new Date(pendingDraft.savedAt).toLocaleString(locale) })}
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={handleDiscardDraft} className="flex-1 sm:flex-none">
+                {t('draft.startOver')}
+              </Button>
+              <Button size="sm" onClick={handleRestoreDraft} className="flex-1 sm:flex-none bg-[#1a1a2e] hover:bg-[#2a2a4e]">
+                {t('draft.continue')}
+              </Button>
+            </div>
+          </div>
+        )}
+
         {/* Progress - Mobile optimized */}
         <div className="flex items-center justify-between mb-6 md:mb-8">
           {STEPS.map((s, i) => (
@@ -374,7 +663,7 @@ export default function SubmitPage() {
                 <span className={cn(
                   "text-[8px] sm:text-[10px] md:text-xs mt-1 whitespace-nowrap max-w-[50px] sm:max-w-none truncate text-center",
                   i <= step ? "text-gray-900" : "text-gray-400"
-                )}>{s}</span>
+                )}>{t(s)}</span>
               </div>
               {i < STEPS.length - 1 && (
                 <div className={cn(
@@ -393,10 +682,10 @@ export default function SubmitPage() {
           {step === 0 && (
             <div className="space-y-6">
               <div className="space-y-3">
-                <h2 className="font-medium text-base md:text-lg">Testimony Type *</h2>
+                <h2 className="font-medium text-base md:text-lg">{t('category.typeHeading')}</h2>
                 <Select value={testimonyCategoryId} onValueChange={(v) => setValue('testimonyCategoryId', v)}>
                   <SelectTrigger>
-                    <SelectValue placeholder={testimonyCategories.length === 0 ? "No types available" : "What is your testimony about?"} />
+                    <SelectValue placeholder={testimonyCategories.length === 0 ? t('category.noTypes') : t('category.typePlaceholder')} />
                   </SelectTrigger>
                   <SelectContent>
                     {testimonyCategories.map((c) => (
@@ -407,18 +696,18 @@ export default function SubmitPage() {
               </div>
 
               <div className="space-y-3">
-                <h2 className="font-medium text-base md:text-lg">Select Category *</h2>
+                <h2 className="font-medium text-base md:text-lg">{t('category.heading')}</h2>
                 {[
-                  { value: 'NETWORK', label: 'Network', desc: 'REON, TNI, Youths Aglow, etc.' },
-                  { value: 'EXTERNAL', label: 'External Category', desc: 'Other categories' },
-                  { value: 'REGION', label: 'Zone / Group / Church', desc: '' },
+                  { value: 'NETWORK', label: t('category.network'), desc: t('category.networkDescription') },
+                  { value: 'EXTERNAL', label: t('category.external'), desc: t('category.externalDescription') },
+                  { value: 'REGION', label: t('category.region'), desc: '' },
                 ].map((opt) => (
                   <button
                     key={opt.value}
                     type="button"
                     onClick={() => setValue('categoryType', opt.value as CategoryType)}
                     className={cn(
-                      "w-full p-3 md:p-4 rounded-lg border text-left transition-all active:scale-[0.99]",
+                      "w-full p-3 md:p-4 rounded-lg border text-start transition-all active:scale-[0.99]",
                       categoryType === opt.value
                         ? "border-[#1a1a2e] bg-gray-50 shadow-sm"
                         : "border-gray-200 hover:border-gray-300 hover:bg-gray-50/50"
@@ -436,29 +725,29 @@ export default function SubmitPage() {
           {step === 1 && (
             <div className="space-y-4">
               <h2 className="font-medium text-base md:text-lg mb-4">
-                {categoryType === 'NETWORK' && 'Select Network'}
-                {categoryType === 'EXTERNAL' && 'Select Category'}
-                {categoryType === 'REGION' && 'Select Zone, Group & Church'}
+                {categoryType === 'NETWORK' && t('details.networkHeading')}
+                {categoryType === 'EXTERNAL' && t('details.externalHeading')}
+                {categoryType === 'REGION' && t('details.regionHeading')}
               </h2>
 
               {categoryType === 'NETWORK' && (
                 <>
                   <div>
-                    <Label className="text-sm">Network *</Label>
+                    <Label className="text-sm">{t('details.network')}</Label>
                     <Select value={networkId} onValueChange={(v) => setValue('networkId', v)}>
                       <SelectTrigger className="mt-1">
-                        <SelectValue placeholder={networks.length === 0 ? "No networks available" : "Choose network"} />
+                        <SelectValue placeholder={networks.length === 0 ? t('details.noNetworks') : t('details.chooseNetwork')} />
                       </SelectTrigger>
                       <SelectContent>
                         {networks.map((n) => <SelectItem key={n.id} value={n.id}>{n.name}</SelectItem>)}
-                        <SelectItem value="other">Other</SelectItem>
+                        <SelectItem value="other">{t('common.other')}</SelectItem>
                       </SelectContent>
                     </Select>
                   </div>
                   {networkId === 'other' && (
                     <div>
-                      <Label className="text-sm">Network Name *</Label>
-                      <Input {...register('customNetwork')} placeholder="Enter network name" className="mt-1" />
+                      <Label className="text-sm">{t('details.networkName')}</Label>
+                      <Input {...register('customNetwork')} placeholder={t('details.networkNamePlaceholder')} className="mt-1" />
                     </div>
                   )}
                 </>
@@ -467,21 +756,21 @@ export default function SubmitPage() {
               {categoryType === 'EXTERNAL' && (
                 <>
                   <div>
-                    <Label className="text-sm">Category *</Label>
+                    <Label className="text-sm">{t('details.category')}</Label>
                     <Select value={externalCategoryId} onValueChange={(v) => setValue('externalCategoryId', v)}>
                       <SelectTrigger className="mt-1">
-                        <SelectValue placeholder={externalCategories.length === 0 ? "No categories available" : "Choose category"} />
+                        <SelectValue placeholder={externalCategories.length === 0 ? t('details.noCategories') : t('details.chooseCategory')} />
                       </SelectTrigger>
                       <SelectContent>
                         {externalCategories.map((c) => <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>)}
-                        <SelectItem value="other">Other</SelectItem>
+                        <SelectItem value="other">{t('common.other')}</SelectItem>
                       </SelectContent>
                     </Select>
                   </div>
                   {externalCategoryId === 'other' && (
                     <div>
-                      <Label className="text-sm">Category Name *</Label>
-                      <Input {...register('customExternal')} placeholder="Enter category name" className="mt-1" />
+                      <Label className="text-sm">{t('details.categoryName')}</Label>
+                      <Input {...register('customExternal')} placeholder={t('details.categoryNamePlaceholder')} className="mt-1" />
                     </div>
                   )}
                 </>
@@ -490,10 +779,10 @@ export default function SubmitPage() {
               {categoryType === 'REGION' && (
                 <>
                   <div>
-                    <Label className="text-sm">Zone *</Label>
+                    <Label className="text-sm">{t('details.zone')}</Label>
                     <Select value={zoneId} onValueChange={(v) => { setValue('zoneId', v); setValue('groupId', undefined); }}>
                       <SelectTrigger className="mt-1">
-                        <SelectValue placeholder={allZones.length === 0 ? "No zones available" : "Select zone"} />
+                        <SelectValue placeholder={allZones.length === 0 ? t('details.noZones') : t('details.selectZone')} />
                       </SelectTrigger>
                       <SelectContent>
                         {allZones.map((z) => (
@@ -505,7 +794,7 @@ export default function SubmitPage() {
 
                   {zoneId && (
                     <div>
-                      <Label className="text-sm">Group *</Label>
+                      <Label className="text-sm">{t('details.group')}</Label>
                       <Select
                         value={groupId}
                         onValueChange={(v) => setValue('groupId', v)}
@@ -514,16 +803,16 @@ export default function SubmitPage() {
                         <SelectTrigger className="mt-1">
                           {isLoadingGroups ? (
                             <span className="flex items-center text-gray-500">
-                              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                              Loading groups...
+                              <Loader2 className="w-4 h-4 me-2 animate-spin" />
+                              {t('details.loadingGroups')}
                             </span>
                           ) : (
-                            <SelectValue placeholder={groupsError ? "Error loading groups" : "Select group"} />
+                            <SelectValue placeholder={groupsError ? t('details.groupsError') : t('details.selectGroup')} />
                           )}
                         </SelectTrigger>
                         <SelectContent>
                           {groups.map((g) => <SelectItem key={g.id} value={g.id}>{g.name}</SelectItem>)}
-                          <SelectItem value="new">+ Add new group</SelectItem>
+                          <SelectItem value="new">{t('details.addGroup')}</SelectItem>
                         </SelectContent>
                       </Select>
                       {groupsError && (
@@ -531,7 +820,7 @@ export default function SubmitPage() {
                           onClick={() => loadGroups(zoneId)}
                           className="text-sm text-[#1a1a2e] hover:underline mt-1 flex items-center"
                         >
-                          <RefreshCw className="w-3 h-3 mr-1" /> Retry
+                          <RefreshCw className="w-3 h-3 me-1" /> {t('common.retry')}
                         </button>
                       )}
                     </div>
@@ -539,15 +828,15 @@ export default function SubmitPage() {
 
                   {groupId === 'new' && (
                     <div>
-                      <Label className="text-sm">New Group Name *</Label>
-                      <Input {...register('newGroupName')} placeholder="Enter group name" className="mt-1" />
+                      <Label className="text-sm">{t('details.newGroup')}</Label>
+                      <Input {...register('newGroupName')} placeholder={t('details.newGroupPlaceholder')} className="mt-1" />
                     </div>
                   )}
 
                   {((groupId && groupId !== 'new') || watch('newGroupName')) && (
                     <div>
-                      <Label className="text-sm">Church *</Label>
-                      <Input {...register('church')} placeholder="Your church name" className="mt-1" />
+                      <Label className="text-sm">{t('details.church')}</Label>
+                      <Input {...register('church')} placeholder={t('details.churchPlaceholder')} className="mt-1" />
                     </div>
                   )}
                 </>
@@ -558,29 +847,33 @@ export default function SubmitPage() {
           {/* Step 2: Personal Info */}
           {step === 2 && (
             <div className="space-y-4">
-              <h2 className="font-medium text-base md:text-lg mb-4">Personal Information</h2>
+              <h2 className="font-medium text-base md:text-lg mb-4">{t('personal.heading')}</h2>
 
               <div>
-                <Label className="text-sm">Full Name *</Label>
-                <Input {...register('name')} placeholder="Your name" className="mt-1" />
-                {errors.name && <p className="text-xs md:text-sm text-red-500 mt-1">{errors.name.message}</p>}
+                <Label className="text-sm">{t('personal.name')}</Label>
+                <Input {...register('name')} placeholder={t('personal.namePlaceholder')} className="mt-1" />
+                {errors.name?.message && <p className="text-xs md:text-sm text-red-500 mt-1">{t(errors.name.message as MessageKey)}</p>}
               </div>
 
               <div>
-                <Label className="text-sm">Email *</Label>
-                <Input {...register('email')} type="email" placeholder="email@example.com" className="mt-1" />
-                {errors.email && <p className="text-xs md:text-sm text-red-500 mt-1">{errors.email.message}</p>}
+                <Label className="text-sm">{t('personal.email')}</Label>
+                <Input {...register('email')} type="email" dir="ltr" placeholder="email@example.com" className="mt-1" />
+                {errors.email?.message && <p className="text-xs md:text-sm text-red-500 mt-1">{t(errors.email.message as MessageKey)}</p>}
               </div>
 
               <div>
-                <Label className="text-sm">Country *</Label>
+                <Label className="text-sm">{t('personal.country')}</Label>
                 <Select value={countryId} onValueChange={(v) => {
                   setValue('countryId', v)
                   const c = countries.find(x => x.id === v)
-                  if (c) setValue('phoneCountryCode', c.phoneCode)
+                  if (c) {
+                    setValue('countryCode', c.code)
+                    setValue('phoneCountryCode', c.phoneCode)
+                    if (phone) setValue('phone', formatPhoneAsYouType(phone, getPhoneRegion(c.code, c.phoneCode)))
+                  }
                 }}>
                   <SelectTrigger className="mt-1">
-                    <SelectValue placeholder={countries.length === 0 ? "No countries available" : "Select country"} />
+                    <SelectValue placeholder={countries.length === 0 ? t('personal.noCountries') : t('personal.selectCountry')} />
                   </SelectTrigger>
                   <SelectContent>
                     {countries.map((c) => <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>)}
@@ -589,21 +882,36 @@ export default function SubmitPage() {
               </div>
 
               <div>
-                <Label className="text-sm">Phone *</Label>
+                <Label className="text-sm">{t('personal.phone')}</Label>
                 <div className="flex gap-2 mt-1">
                   <Input
                     value={selectedCountry?.phoneCode || ''}
                     disabled
+                    dir="ltr"
                     className="w-16 md:w-20 text-center bg-gray-50"
                   />
-                  <Input {...register('phone')} placeholder="Phone number" className="flex-1" />
+                  <Input
+                    {...register('phone')}
+                    type="tel"
+                    dir="ltr"
+                    autoComplete="tel-national"
+                    onChange={(e) => {
+                      // Only reformat while typing forwards so deleting a space or bracket isn't undone
+                      const value = e.target.value.length > phone.length
+                        ? formatPhoneAsYouType(e.target.value, phoneRegion)
+                        : e.target.value
+                      setValue('phone', value, { shouldValidate: !!errors.phone })
+                    }}
+                    placeholder={t('personal.phonePlaceholder')}
+                    className="flex-1"
+                  />
                 </div>
-                {errors.phone && <p className="text-xs md:text-sm text-red-500 mt-1">{errors.phone.message}</p>}
+                {errors.phone?.message && <p className="text-xs md:text-sm text-red-500 mt-1">{t(errors.phone.message as MessageKey)}</p>}
               </div>
 
               <div>
-                <Label className="text-sm">KingsChat Username</Label>
-                <Input {...register('kingschatUsername')} placeholder="Optional" className="mt-1" />
+                <Label className="text-sm">{t('personal.kingschat')}</Label>
+                <Input {...register('kingschatUsername')} placeholder={t('common.optional')} className="mt-1" />
               </div>
             </div>
           )}
@@ -611,24 +919,32 @@ export default function SubmitPage() {
           {/* Step 3: Testimony */}
           {step === 3 && (
             <div className="space-y-4 md:space-y-6">
-              <h2 className="font-medium text-base md:text-lg mb-4">Your Testimony</h2>
+              <h2 className="font-medium text-base md:text-lg mb-4">{t('testimony.heading')}</h2>
 
               <div className="grid grid-cols-3 gap-2">
                 {[
-                  { value: 'TEXT', label: 'Text', icon: FileText },
-                  { value: 'VIDEO', label: 'Video', icon: Video },
-                  { value: 'AUDIO', label: 'Audio', icon: Mic },
+                  { value: 'TEXT', label: t('testimony.text'), icon: FileText },
+                  { value: 'VIDEO', label: t('testimony.video'), icon: Video },
+                  { value: 'AUDIO', label: t('testimony.audio'), icon: Mic },
                 ].map((opt) => (
                   <button
                     key={opt.value}
                     type="button"
+                    disabled={opt.value !== 'TEXT' && isStorageFull}
                     onClick={() => {
+                      if (opt.value !== contentType) {
+                        probeId.current++
+                        setFile(null)
+                        setMediaInfo(null)
+                        setIsProbing(false)
+                        setOversizedFile(null)
+                        setMediaSource('upload')
+                      }
                       setValue('contentType', opt.value as ContentType)
-                      if (opt.value === 'TEXT') setFile(null)
-                      else setValue('textContent', undefined)
+                      if (opt.value !== 'TEXT') setValue('textContent', undefined)
                     }}
                     className={cn(
-                      "py-3 md:py-4 rounded-lg border text-center transition-all active:scale-[0.98]",
+                      "py-3 md:py-4 rounded-lg border text-center transition-all active:scale-[0.98] disabled:opacity-50 disabled:cursor-not-allowed disabled:active:scale-100",
                       contentType === opt.value
                         ? "border-[#1a1a2e] bg-gray-50 shadow-sm"
                         : "border-gray-200 hover:border-gray-300"
@@ -640,114 +956,298 @@ export default function SubmitPage() {
                 ))}
               </div>
 
+              {isStorageFull && (
+                <div className="flex items-start gap-2 p-3 rounded-lg bg-amber-50 text-amber-800 text-xs md:text-sm">
+                  <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                  <p>{t('testimony.storageFull')}</p>
+                </div>
+              )}
+
               {contentType === 'TEXT' && (
                 <Textarea
                   {...register('textContent')}
-                  placeholder="Share your testimony..."
+                  placeholder={t('testimony.textPlaceholder')}
                   className="min-h-[150px] md:min-h-[200px] text-sm md:text-base"
                 />
               )}
 
-              {(contentType === 'VIDEO' || contentType === 'AUDIO') && (
+              {(contentType === 'VIDEO' || contentType === 'AUDIO') && !isStorageFull && canRecord && (
+                <div className="grid grid-cols-2 gap-2">
+                  {[
+                    { value: 'upload', label: t('testimony.uploadFile'), icon: Upload },
+                    { value: 'record', label: t(contentType === 'VIDEO' ? 'testimony.recordVideo' : 'testimony.recordAudio'), icon: Circle },
+                  ].map((opt) => (
+                    <button
+                      key={opt.value}
+                      type="button"
+                      onClick={() => setMediaSource(opt.value as 'upload' | 'record')}
+                      className={cn(
+                        "flex items-center justify-center gap-2 py-2 rounded-md border text-xs md:text-sm transition-colors",
+                        mediaSource === opt.value
+                          ? "border-[#1a1a2e] bg-gray-50"
+                          : "border-gray-200 text-gray-500 hover:border-gray-300"
+                      )}
+                    >
+                      <opt.icon className="w-4 h-4" />
+                      {opt.label}
+                    </button>
+                  ))}
+                </div>
+              )}
+
+              {(contentType === 'VIDEO' || contentType === 'AUDIO') && !isStorageFull && mediaSource === 'record' && (
+                <MediaRecorderPanel
+                  key={contentType}
+                  kind={contentType}
+                  maxBytes={maxFileSize[contentType]}
+                  durationLimits={getDurationLimits(uploadLimits, contentType)}
+                  onRecorded={handleRecorded}
+                />
+              )}
+
+              {(contentType === 'VIDEO' || contentType === 'AUDIO') && !isStorageFull && mediaSource === 'upload' && oversizedFile && (
+                <MediaCompressor
+                  key={getFileFingerprint(oversizedFile)}
+                  file={oversizedFile}
+                  kind={contentType}
+                  maxBytes={maxFileSize[contentType]}
+                  onCompressed={handleCompressed}
+                  onDismiss={() => setOversizedFile(null)}
+                />
+              )}
+
+              {(contentType === 'VIDEO' || contentType === 'AUDIO') && !isStorageFull && mediaSource === 'upload' && (
                 <label className={cn(
                   "flex flex-col items-center justify-center h-32 md:h-40 border-2 border-dashed rounded-lg cursor-pointer transition-colors",
                   file ? "border-green-500 bg-green-50" : "border-gray-300 hover:border-gray-400 hover:bg-gray-50"
                 )}>
-                  {file ? (
+                  {isProbing ? (
+                    <div className="text-center text-gray-500 px-4">
+                      <Loader2 className="w-6 h-6 md:w-8 md:h-8 mx-auto mb-2 animate-spin" />
+                      <p className="text-sm md:text-base">{t('testimony.checkingFile')}</p>
+                    </div>
+                  ) : file ? (
                     <div className="text-center px-4">
                       <Check className="w-6 h-6 md:w-8 md:h-8 text-green-600 mx-auto mb-2" />
                       <p className="font-medium text-green-700 text-sm md:text-base truncate max-w-[200px] md:max-w-[300px]">{file.name}</p>
                       <p className="text-xs md:text-sm text-green-600">{(file.size / 1024 / 1024).toFixed(2)} MB</p>
-                      <p className="text-xs text-green-600 mt-1">Tap to change</p>
+                      <p className="text-xs text-green-600 mt-1">{t('testimony.tapToChange')}</p>
                     </div>
                   ) : (
                     <div className="text-center text-gray-500 px-4">
                       <Upload className="w-6 h-6 md:w-8 md:h-8 mx-auto mb-2" />
-                      <p className="text-sm md:text-base">Tap to upload {contentType.toLowerCase()}</p>
-                      <p className="text-xs">Max {contentType === 'VIDEO' ? '100' : '20'}MB</p>
+                      <p className="text-sm md:text-base">{t(contentType === 'VIDEO' ? 'testimony.tapToUploadVideo' : 'testimony.tapToUploadAudio')}</p>
+                      <p className="text-xs">{t('testimony.maxSize', { size: formatBytes(maxFileSize[contentType]) })}</p>
                     </div>
                   )}
                   <input
                     type="file"
                     className="hidden"
                     accept={contentType === 'VIDEO' ? 'video/*' : 'audio/*'}
+                    disabled={isProbing}
                     onChange={handleFileChange}
                   />
                 </label>
               )}
+
+              {(contentType === 'VIDEO' || contentType === 'AUDIO') && mediaSource === 'upload' && file && mediaInfo && !isProbing && (
+                <MediaPreview file={file} kind={contentType} info={mediaInfo} />
+              )}
+
+              {(contentType === 'VIDEO' || contentType === 'AUDIO') && !isStorageFull && (
+                resumableUpload && resumableUpload.offset > 0 ? (
+                  <div className="flex items-start gap-2 p-3 rounded-lg bg-blue-50 text-blue-700 text-xs md:text-sm">
+                    <RefreshCw className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                    <p>
+                      {resumableUpload.completed
+                        ? t('testimony.alreadyUploaded')
+                        : t('testimony.resumeFrom', { percent: Math.floor((resumableUpload.offset / resumableUpload.size) * 100) })}
+                    </p>
+                  </div>
+                ) : !file && interruptedUpload && (
+                  <div className="flex items-start gap-2 p-3 rounded-lg bg-amber-50 text-amber-800 text-xs md:text-sm">
+                    <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                    <p>
+                      {t('testimony.interrupted', {
+                        file: interruptedUpload.fileName,
+                        percent: Math.floor((interruptedUpload.offset / interruptedUpload.size) * 100),
+                      })}
+                    </p>
+                  </div>
+                )
+              )}
+
+              {!isStorageFull && (
+                <div className="pt-4 border-t">
+                  <AttachmentPicker
+                    files={attachments}
+                    maxBytes={uploadLimits.maxAttachmentFileSize}
+                    onChange={setAttachments}
+                  />
+                </div>
+              )}
             </div>
           )}
 
           {/* Step 4: Review */}
           {step === 4 && (
             <div className="space-y-4">
-              <h2 className="font-medium text-base md:text-lg mb-4">Review & Submit</h2>
+              <h2 className="font-medium text-base md:text-lg mb-4">{t('review.heading')}</h2>
               <div className="bg-gray-50 rounded-lg p-3 md:p-4 space-y-2 md:space-y-3 text-sm">
                 <div className="flex justify-between gap-2">
-                  <span className="text-gray-500 flex-shrink-0">Testimony Type</span>
-                  <span className="text-right truncate">{selectedTestimonyCategory?.name}</span>
+                  <span className="text-gray-500 flex-shrink-0">{t('review.testimonyType')}</span>
+                  <span className="text-end truncate">{selectedTestimonyCategory?.name}</span>
                 </div>
                 <div className="flex justify-between gap-2">
-                  <span className="text-gray-500 flex-shrink-0">Category</span>
-                  <span className="text-right">{categoryType === 'NETWORK' ? 'Network' : categoryType === 'EXTERNAL' ? 'External' : 'Zone/Group/Church'}</span>
+                  <span className="text-gray-500 flex-shrink-0">{t('review.category')}</span>
+                  <span className="text-end">{t(categoryType === 'NETWORK' ? 'review.network' : categoryType === 'EXTERNAL' ? 'review.external' : 'review.region')}</span>
                 </div>
                 {categoryType === 'NETWORK' && (
                   <div className="flex justify-between gap-2">
-                    <span className="text-gray-500 flex-shrink-0">Network</span>
-                    <span className="text-right truncate">{networkId === 'other' ? watch('customNetwork') : selectedNetwork?.name}</span>
+                    <span className="text-gray-500 flex-shrink-0">{t('review.network')}</span>
+                    <span className="text-end truncate">{networkId === 'other' ? watch('customNetwork') : selectedNetwork?.name}</span>
                   </div>
                 )}
                 {categoryType === 'EXTERNAL' && (
                   <div className="flex justify-between gap-2">
-                    <span className="text-gray-500 flex-shrink-0">External Category</span>
-                    <span className="text-right truncate">{externalCategoryId === 'other' ? watch('customExternal') : selectedExternalCategory?.name}</span>
+                    <span className="text-gray-500 flex-shrink-0">{t('review.externalCategory')}</span>
+                    <span className="text-end truncate">{externalCategoryId === 'other' ? watch('customExternal') : selectedExternalCategory?.name}</span>
                   </div>
                 )}
                 {categoryType === 'REGION' && (
                   <>
                     <div className="flex justify-between gap-2">
-                      <span className="text-gray-500 flex-shrink-0">Zone</span>
-                      <span className="text-right truncate">{selectedZone?.name}</span>
+                      <span className="text-gray-500 flex-shrink-0">{t('review.zone')}</span>
+                      <span className="text-end truncate">{selectedZone?.name}</span>
                     </div>
                     <div className="flex justify-between gap-2">
-                      <span className="text-gray-500 flex-shrink-0">Group</span>
-                      <span className="text-right truncate">{groupId === 'new' ? watch('newGroupName') : selectedGroup?.name}</span>
+                      <span className="text-gray-500 flex-shrink-0">{t('review.group')}</span>
+                      <span className="text-end truncate">{groupId === 'new' ? watch('newGroupName') : selectedGroup?.name}</span>
                     </div>
                     <div className="flex justify-between gap-2">
-                      <span className="text-gray-500 flex-shrink-0">Church</span>
-                      <span className="text-right truncate">{watch('church')}</span>
+                      <span className="text-gray-500 flex-shrink-0">{t('review.church')}</span>
+                      <span className="text-end truncate">{watch('church')}</span>
                     </div>
                   </>
                 )}
                 <div className="flex justify-between gap-2 pt-2 border-t">
-                  <span className="text-gray-500 flex-shrink-0">Name</span>
-                  <span className="text-right truncate">{watch('name')}</span>
+                  <span className="text-gray-500 flex-shrink-0">{t('review.name')}</span>
+                  <span className="text-end truncate">{watch('name')}</span>
                 </div>
                 <div className="flex justify-between gap-2">
-                  <span className="text-gray-500 flex-shrink-0">Email</span>
-                  <span className="text-right truncate">{watch('email')}</span>
+                  <span className="text-gray-500 flex-shrink-0">{t('review.email')}</span>
+                  <span className="text-end truncate">{watch('email')}</span>
                 </div>
                 <div className="flex justify-between gap-2">
-                  <span className="text-gray-500 flex-shrink-0">Phone</span>
-                  <span className="text-right">{watch('phoneCountryCode')} {watch('phone')}</span>
+                  <span className="text-gray-500 flex-shrink-0">{t('review.phone')}</span>
+                  <span className="text-end" dir="ltr">{formatStoredPhone(toE164(phone, phoneRegion) ?? phone, watch('phoneCountryCode'))}</span>
                 </div>
                 <div className="flex justify-between gap-2">
-                  <span className="text-gray-500 flex-shrink-0">Content Type</span>
-                  <span className="text-right">{contentType}</span>
+                  <span className="text-gray-500 flex-shrink-0">{t('review.contentType')}</span>
+                  <span className="text-end">{t(contentType === 'TEXT' ? 'testimony.text' : contentType === 'VIDEO' ? 'testimony.video' : 'testimony.audio')}</span>
                 </div>
                 {contentType === 'TEXT' && (
                   <div className="pt-2 border-t">
-                    <span className="text-gray-500 block mb-1">Testimony</span>
+                    <span className="text-gray-500 block mb-1">{t('review.testimony')}</span>
                     <p className="line-clamp-3 text-xs md:text-sm">{watch('textContent')}</p>
                   </div>
                 )}
                 {file && (
                   <div className="flex justify-between gap-2 pt-2 border-t">
-                    <span className="text-gray-500 flex-shrink-0">File</span>
-                    <span className="text-right truncate max-w-[150px] md:max-w-[250px]">{file.name}</span>
+                    <span className="text-gray-500 flex-shrink-0">{t('review.file')}</span>
+                    <div className="flex items-center gap-2 min-w-0">
+                      {mediaInfo?.poster && (
+                        <Image src={mediaInfo.poster} alt="" width={64} height={40} unoptimized className="w-16 h-10 object-cover rounded flex-shrink-0" />
+                      )}
+                      <div className="text-end min-w-0">
+                        <p className="truncate max-w-[150px] md:max-w-[250px]">{file.name}</p>
+                        {mediaInfo && <p className="text-xs text-gray-500">{describeMedia(file, mediaInfo)}</p>}
+                      </div>
+                    </div>
+                  </div>
+                )}
+                {attachments.length > 0 && (
+                  <div className="flex justify-between gap-2 pt-2 border-t">
+                    <span className="text-gray-500 flex-shrink-0">{t('review.attachments')}</span>
+                    <div className="text-end min-w-0">
+                      {attachments.map((attachment, index) => (
+                        <p key={index} className="truncate max-w-[150px] md:max-w-[250px]">{attachment.name}</p>
+                      ))}
+                    </div>
                   </div>
                 )}
               </div>
+
+              {isPossibleDuplicate && (
+                <div className="flex items-start gap-2 p-3 rounded-lg bg-amber-50 text-amber-800 text-xs md:text-sm">
+                  <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                  <div>
+                    <p className="font-medium">{t('review.duplicateTitle')}</p>
+                    <p>{t('review.duplicateDescription')}</p>
+                  </div>
+                </div>
+              )}
+
+              <div className="space-y-4 pt-2">
+                <h3 className="font-medium">{t('consent.heading')}</h3>
+                <div className="space-y-2">
+                  <Label>{t('consent.publication')}</Label>
+                  <RadioGroup
+                    value={publicationConsent ?? ''}
+                    onValueChange={(v) => setValue('publicationConsent', v as PublicationConsent)}
+                    disabled={isSubmitting}
+                  >
+                    {PUBLICATION_OPTIONS.map((option) => (
+                      <div key={option.value} className="flex items-start gap-3 p-3 rounded-lg border">
+                        <RadioGroupItem value={option.value} id={`publication-${option.value}`} className="mt-0.5" />
+                        <Label htmlFor={`publication-${option.value}`} className="font-normal cursor-pointer">
+                          <span className="block font-medium">{t(option.label)}</span>
+                          <span className="block text-xs text-gray-500 mt-0.5">{t(option.description)}</span>
+                        </Label>
+                      </div>
+                    ))}
+                  </RadioGroup>
+                </div>
+                <div className="flex items-start gap-3">
+                  <Checkbox
+                    id="contactConsent"
+                    checked={contactConsent}
+                    onCheckedChange={(checked) => setValue('contactConsent', checked === true)}
+                    disabled={isSubmitting}
+                    className="mt-0.5"
+                  />
+                  <Label htmlFor="contactConsent" className="font-normal cursor-pointer">
+                    <span className="block">{t('consent.contact')}</span>
+                    <span className="block text-xs text-gray-500 mt-0.5">{t('consent.contactDescription')}</span>
+                  </Label>
+                </div>
+                <div className="flex items-start gap-3">
+                  <Checkbox
+                    id="privacyAccepted"
+                    checked={privacyAccepted}
+                    onCheckedChange={(checked) => setValue('privacyAccepted', checked === true)}
+                    disabled={isSubmitting}
+                    className="mt-0.5"
+                  />
+                  <div>
+                    <Label htmlFor="privacyAccepted" className="font-normal cursor-pointer">{t('consent.privacy')}</Label>
+                    <a href="/privacy" target="_blank" rel="noopener noreferrer" className="block text-xs text-[#1a1a2e] underline mt-0.5">
+                      {t('consent.privacyLink')}
+                    </a>
+                  </div>
+                </div>
+                {(!publicationConsent || !privacyAccepted) && (
+                  <p className="text-xs text-gray-500">{t('consent.required')}</p>
+                )}
+              </div>
+
+              {isSubmitting && uploadProgress && (
+                <UploadProgress
+                  uploaded={uploadProgress.uploaded}
+                  total={uploadProgress.total}
+                  onCancel={handleCancelUpload}
+                />
+              )}
             </div>
           )}
 
@@ -756,11 +1256,11 @@ export default function SubmitPage() {
             <Button
               variant="outline"
               onClick={handleBack}
-              disabled={step === 0}
+              disabled={step === 0 || isSubmitting}
               className="flex-1 md:flex-none"
             >
-              <ArrowLeft className="w-4 h-4 mr-1 md:mr-2" />
-              <span className="hidden sm:inline">Back</span>
+              <ArrowLeft className="w-4 h-4 me-1 md:me-2 rtl:rotate-180" />
+              <span className="hidden sm:inline">{t('common.back')}</span>
             </Button>
 
             {step < STEPS.length - 1 ? (
@@ -769,24 +1269,26 @@ export default function SubmitPage() {
                 disabled={!canProceed()}
                 className="flex-1 md:flex-none bg-[#1a1a2e] hover:bg-[#2a2a4e]"
               >
-                <span className="hidden sm:inline">Continue</span>
-                <span className="sm:hidden">Next</span>
-                <ArrowRight className="w-4 h-4 ml-1 md:ml-2" />
+                <span className="hidden sm:inline">{t('common.continue')}</span>
+                <span className="sm:hidden">{t('common.next')}</span>
+                <ArrowRight className="w-4 h-4 ms-1 md:ms-2 rtl:rotate-180" />
               </Button>
             ) : (
               <Button
                 onClick={handleSubmit}
-                disabled={isSubmitting || isCreatingGroup}
+                disabled={isSubmitting || isCreatingGroup || !publicationConsent || !privacyAccepted}
                 className="flex-1 md:flex-none bg-[#1a1a2e] hover:bg-[#2a2a4e]"
               >
                 {isSubmitting || isCreatingGroup ? (
                   <>
-                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                    <span className="hidden sm:inline">{isCreatingGroup ? 'Creating group...' : 'Submitting...'}</span>
-                    <span className="sm:hidden">Wait...</span>
+                    <Loader2 className="w-4 h-4 me-2 animate-spin" />
+                    <span className="hidden sm:inline">
+                      {isCreatingGroup ? t('review.creatingGroup') : uploadProgress && uploadProgress.uploaded < uploadProgress.total ? t('review.uploading') : t('review.submitting')}
+                    </span>
+                    <span className="sm:hidden">{t('common.wait')}</span>
                   </>
                 ) : (
-                  'Submit'
+                  t('common.submit')
                 )}
               </Button>
             )}
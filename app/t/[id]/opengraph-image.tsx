@@ -0,0 +1,48 @@
+import { ImageResponse } from 'next/og'
+import { getPublicTestimony } from '@/lib/server-api'
+import { getNameInitial, truncateText } from '@/lib/utils'
+
+export const alt = 'A Billion Testimonies'
+export const size = { width: 1200, height: 630 }
+export const contentType = 'image/png'
+
+export default async function Image({ params }: { params: { id: string } }) {
+  const testimony = await getPublicTestimony(params.id)
+
+  const quote = !testimony
+    ? 'Share your testimony with the world'
+    : testimony.contentType === 'TEXT' && testimony.textContent
+      ? `“${truncateText(testimony.textContent, 180)}”`
+      : testimony.contentType === 'VIDEO' ? 'Watch this video testimony' : 'Listen to this audio testimony'
+
+  const byline = testimony
+    ? [getNameInitial(testimony.name), testimony.country?.name].filter(Boolean).join(' · ')
+    : ''
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          width: '100%',
+          height: '100%',
+          display: 'flex',
+          flexDirection: 'column',
+          justifyContent: 'space-between',
+          padding: 72,
+          background: 'linear-gradient(135deg, #1a1a2e 0%, #0f0f1a 100%)',
+          color: 'white',
+        }}
+      >
+        <div style={{ display: 'flex', fontSize: 28, color: '#f5c518', letterSpacing: 2, textTransform: 'uppercase' }}>
+          {testimony ? testimony.testimonyCategory.name : 'Testimonies'}
+        </div>
+        <div style={{ display: 'flex', fontSize: 52, lineHeight: 1.3 }}>{quote}</div>
+        <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: 28, color: 'rgba(255,255,255,0.7)' }}>
+          <span>{byline}</span>
+          <span>A Billion Testimonies</span>
+        </div>
+      </div>
+    ),
+    size
+  )
+}
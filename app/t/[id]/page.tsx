@@ -0,0 +1,122 @@
+import type { Metadata } from 'next'
+import Link from 'next/link'
+import { notFound } from 'next/navigation'
+import { Header } from '@/components/header'
+import { ShareButton } from '@/components/share-button'
+import { ViewTracker } from '@/components/view-tracker'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { getMediaUrl } from '@/lib/api'
+import { getPublicTestimony } from '@/lib/server-api'
+import { getNameInitial, truncateText } from '@/lib/utils'
+import type { PublicTestimony } from '@/types'
+import { MapPin } from 'lucide-react'
+
+interface TestimonyPageProps {
+  params: { id: string }
+}
+
+function describeTestimony(testimony: PublicTestimony): string {
+  if (testimony.contentType === 'TEXT' && testimony.textContent) {
+    return truncateText(testimony.textContent, 200)
+  }
+  const from = testimony.country ? ` from ${testimony.country.name}` : ''
+  const kind = testimony.contentType === 'VIDEO' ? 'Watch a video' : 'Listen to an audio'
+  return `${kind} testimony${from}.`
+}
+
+export async function generateMetadata({ params }: TestimonyPageProps): Promise<Metadata> {
+  const testimony = await getPublicTestimony(params.id)
+  if (!testimony) return { title: 'Testimony not found | A Billion Testimonies' }
+
+  const title = `${testimony.testimonyCategory.name} testimony | A Billion Testimonies`
+  const description = describeTestimony(testimony)
+  const mediaUrl = getMediaUrl(testimony.mediaUrl)
+
+  return {
+    title,
+    description,
+    alternates: { canonical: `/t/${testimony.id}` },
+    openGraph: {
+      type: 'article',
+      title,
+      description,
+      url: `/t/${testimony.id}`,
+      siteName: 'A Billion Testimonies',
+      publishedTime: testimony.createdAt,
+      videos: testimony.contentType === 'VIDEO' && mediaUrl
+        ? [{ url: mediaUrl, type: testimony.mediaMimeType || undefined }]
+        : undefined,
+      audio: testimony.contentType === 'AUDIO' && mediaUrl
+        ? [{ url: mediaUrl, type: testimony.mediaMimeType || undefined }]
+        : undefined,
+    },
+    twitter: {
+      card: 'summary_large_image',
+      title,
+      description,
+    },
+  }
+}
+
+export default async function TestimonyPage({ params }: TestimonyPageProps) {
+  const testimony = await getPublicTestimony(params.id)
+  if (!testimony) notFound()
+
+  const mediaUrl = getMediaUrl(testimony.mediaUrl)
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+      <ViewTracker testimonyId={testimony.id} />
+
+      <article className="container mx-auto px-4 py-6 md:py-10 max-w-2xl">
+        <div className="bg-white rounded-lg border overflow-hidden">
+          {testimony.contentType === 'VIDEO' && mediaUrl && (
+            <video src={mediaUrl} controls playsInline preload="metadata" className="w-full aspect-video bg-black" />
+          )}
+
+          <div className="p-4 md:p-6 space-y-4">
+            <div className="flex flex-wrap items-center gap-2">
+              <Badge variant="secondary">{testimony.testimonyCategory.name}</Badge>
+              {testimony.network && <Badge variant="outline">{testimony.network.name}</Badge>}
+            </div>
+
+            {testimony.contentType === 'TEXT' && (
+              <p className="text-gray-800 whitespace-pre-wrap leading-relaxed">{testimony.textContent}</p>
+            )}
+
+            {testimony.contentType === 'AUDIO' && mediaUrl && (
+              <audio src={mediaUrl} controls preload="metadata" className="w-full" />
+            )}
+
+            <div className="flex items-center justify-between gap-2 pt-4 border-t text-sm text-gray-500">
+              <div>
+                <p className="font-medium text-gray-700">{getNameInitial(testimony.name)}</p>
+                <p className="flex items-center gap-1">
+                  {testimony.country && (
+                    <>
+                      <MapPin className="w-3 h-3" />
+                      {testimony.country.name} ·{' '}
+                    </>
+                  )}
+                  {new Date(testimony.createdAt).toLocaleDateString()}
+                </p>
+              </div>
+              <ShareButton title="A Billion Testimonies" text={describeTestimony(testimony)} />
+            </div>
+          </div>
+        </div>
+
+        <div className="flex flex-col sm:flex-row gap-2 justify-center mt-6">
+          <Button asChild variant="outline">
+            <Link href="/testimonies">More Testimonies</Link>
+          </Button>
+          <Button asChild className="bg-[#1a1a2e] hover:bg-[#2a2a4e]">
+            <Link href="/submit">Share Your Testimony</Link>
+          </Button>
+        </div>
+      </article>
+    </div>
+  )
+}
@@ -0,0 +1,14 @@
+import type { Metadata } from 'next'
+
+export const metadata: Metadata = {
+  title: 'Testimonies | A Billion Testimonies',
+  description: 'Read, watch and listen to testimonies from around the world',
+}
+
+export default function TestimoniesLayout({
+  children,
+}: {
+  children: React.ReactNode
+}) {
+  return children
+}
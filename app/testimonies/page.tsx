@@ -0,0 +1,196 @@
+"use client"
+
+import { useState, useEffect, useCallback, useRef } from 'react'
+import Link from 'next/link'
+import { Header } from '@/components/header'
+import { TestimonyCard } from '@/components/testimony-card'
+import { Button } from '@/components/ui/button'
+import { Skeleton } from '@/components/ui/skeleton'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { getPublicTestimonies, getTestimonyCategories, getCountries, getNetworks } from '@/lib/api'
+import type { PublicTestimony, TestimonyCategory, Country, Network } from '@/types'
+import { Loader2, RefreshCw } from 'lucide-react'
+
+const PAGE_SIZE = 12
+
+export default function TestimoniesWallPage() {
+  const [testimonies, setTestimonies] = useState<PublicTestimony[]>([])
+  const [page, setPage] = useState(1)
+  const [hasMore, setHasMore] = useState(true)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const [testimonyCategories, setTestimonyCategories] = useState<TestimonyCategory[]>([])
+  const [countries, setCountries] = useState<Country[]>([])
+  const [networks, setNetworks] = useState<Network[]>([])
+
+  // Filters
+  const [testimonyCategoryId, setTestimonyCategoryId] = useState('')
+  const [countryId, setCountryId] = useState('')
+  const [networkId, setNetworkId] = useState('')
+
+  const sentinel = useRef<HTMLDivElement>(null)
+  // Ignores responses for filters that have since changed
+  const requestId = useRef(0)
+
+  useEffect(() => {
+    Promise.all([getTestimonyCategories(), getCountries(), getNetworks()])
+      .then(([tc, c, n]) => {
+        setTestimonyCategories(tc)
+        setCountries(c)
+        setNetworks(n)
+      })
+      .catch(console.error)
+  }, [])
+
+  const loadPage = useCallback(async (pageToLoad: number) => {
+    const id = ++requestId.current
+    setIsLoading(true)
+    setError(null)
+    try {
+      const result = await getPublicTestimonies({
+        page: pageToLoad,
+        limit: PAGE_SIZE,
+        testimonyCategoryId: testimonyCategoryId || undefined,
+        countryId: countryId || undefined,
+        networkId: networkId || undefined,
+      })
+      if (id !== requestId.current) return
+      setTestimonies((prev) => pageToLoad === 1 ? result.testimonies : [...prev, ...result.testimonies])
+      setPage(pageToLoad)
+      setHasMore(pageToLoad < result.pagination.totalPages)
+    } catch (err) {
+      if (id !== requestId.current) return
+      setError(err instanceof Error ? err.message : 'Failed to load testimonies')
+    } finally {
+      if (id === requestId.current) setIsLoading(false)
+    }
+  }, [testimonyCategoryId, countryId, networkId])
+
+  // Start over whenever the filters change
+  useEffect(() => {
+    setTestimonies([])
+    setHasMore(true)
+    loadPage(1)
+  }, [loadPage])
+
+  // Fetch the next page as the end of the list scrolls into view
+  useEffect(() => {
+    const target = sentinel.current
+    // The first page is loaded by the filter effect above
+    if (!target || !hasMore || isLoading || error || testimonies.length === 0) return
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting) loadPage(page + 1)
+    }, { rootMargin: '400px' })
+    observer.observe(target)
+    return () => observer.disconnect()
+  }, [hasMore, isLoading, error, page, loadPage, testimonies.length])
+
+  const hasFilters = !!(testimonyCategoryId || countryId || networkId)
+
+  const clearFilters = () => {
+    setTestimonyCategoryId('')
+    setCountryId('')
+    setNetworkId('')
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+
+      <div className="container mx-auto px-4 py-6 md:py-10 max-w-6xl">
+        <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4 mb-6">
+          <div>
+            <h1 className="text-2xl md:text-3xl font-semibold">Testimonies</h1>
+            <p className="text-gray-500 text-sm md:text-base">What God is doing around the world</p>
+          </div>
+          <Button asChild className="bg-[#1a1a2e] hover:bg-[#2a2a4e] w-full md:w-auto">
+            <Link href="/submit">Share Your Testimony</Link>
+          </Button>
+        </div>
+
+        {/* Filters */}
+        <div className="flex flex-wrap gap-2 mb-6">
+          <Select value={testimonyCategoryId || 'all'} onValueChange={(v) => setTestimonyCategoryId(v === 'all' ? '' : v)}>
+            <SelectTrigger className="w-full sm:w-[180px] bg-white">
+              <SelectValue placeholder="Testimony Type" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Types</SelectItem>
+              {testimonyCategories.map((cat) => (
+                <SelectItem key={cat.id} value={cat.id}>{cat.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Select value={countryId || 'all'} onValueChange={(v) => setCountryId(v === 'all' ? '' : v)}>
+            <SelectTrigger className="w-full sm:w-[180px] bg-white">
+              <SelectValue placeholder="Country" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Countries</SelectItem>
+              {countries.map((country) => (
+                <SelectItem key={country.id} value={country.id}>{country.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Select value={networkId || 'all'} onValueChange={(v) => setNetworkId(v === 'all' ? '' : v)}>
+            <SelectTrigger className="w-full sm:w-[180px] bg-white">
+              <SelectValue placeholder="Network" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Networks</SelectItem>
+              {networks.map((network) => (
+                <SelectItem key={network.id} value={network.id}>{network.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          {hasFilters && (
+            <Button variant="ghost" onClick={clearFilters}>Clear filters</Button>
+          )}
+        </div>
+
+        {testimonies.length === 0 && isLoading ? (
+          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+            {[...Array(6)].map((_, i) => (
+              <div key={i} className="bg-white rounded-lg border p-4 space-y-3">
+                <Skeleton className="h-5 w-24" />
+                <Skeleton className="h-16 w-full" />
+                <Skeleton className="h-3 w-1/2" />
+              </div>
+            ))}
+          </div>
+        ) : testimonies.length === 0 && !error ? (
+          <p className="text-gray-500 text-center py-12">
+            {hasFilters ? 'No testimonies match these filters yet' : 'No testimonies yet'}
+          </p>
+        ) : (
+          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3 items-start">
+            {testimonies.map((testimony) => (
+              <TestimonyCard key={testimony.id} testimony={testimony} />
+            ))}
+          </div>
+        )}
+
+        {error && (
+          <div className="text-center py-8">
+            <p className="text-red-600 text-sm mb-3">{error}</p>
+            <Button variant="outline" onClick={() => loadPage(testimonies.length === 0 ? 1 : page + 1)}>
+              <RefreshCw className="w-4 h-4 mr-2" />
+              Try Again
+            </Button>
+          </div>
+        )}
+
+        <div ref={sentinel} className="h-1" />
+        {isLoading && testimonies.length > 0 && (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin text-gray-400" />
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
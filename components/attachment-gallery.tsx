@@ -0,0 +1,129 @@
+"use client"
+
+import { useState } from 'react'
+import Image from 'next/image'
+import { Button } from '@/components/ui/button'
+import { isImageAttachment } from '@/lib/attachments'
+import { formatBytes } from '@/lib/utils'
+import type { Attachment } from '@/types'
+import { ChevronLeft, ChevronRight, Download, FileText, X } from 'lucide-react'
+
+interface AttachmentGalleryProps {
+  attachments: Attachment[]
+  getUrl: (url: string) => string
+}
+
+// Thumbnail grid for moderators; images open in an inline viewer, anything
+// else (PDFs) opens in a new tab
+export function AttachmentGallery({ attachments, getUrl }: AttachmentGalleryProps) {
+  const images = attachments.filter((a) => isImageAttachment(a.mimeType))
+  const [viewing, setViewing] = useState<number | null>(null)
+  const current = viewing !== null ? images[viewing] : null
+
+  const showImage = (attachment: Attachment) => {
+    setViewing(images.findIndex((a) => a.id === attachment.id))
+  }
+
+  const step = (delta: number) => {
+    if (viewing === null) return
+    setViewing((viewing + delta + images.length) % images.length)
+  }
+
+  return (
+    <div className="space-y-3">
+      {current && (
+        <div
+          className="relative bg-black rounded-lg"
+          tabIndex={0}
+          onKeyDown={(e) => {
+            // Arrow keys follow the reading direction
+            const forward = document.documentElement.dir === 'rtl' ? 'ArrowLeft' : 'ArrowRight'
+            if (e.key === 'ArrowLeft' || e.key === 'ArrowRight') step(e.key === forward ? 1 : -1)
+            if (e.key === 'Escape') setViewing(null)
+          }}
+        >
+          <Image
+            src={getUrl(current.url)}
+            alt={current.fileName}
+            width={0}
+            height={0}
+            sizes="100vw"
+            unoptimized
+            crossOrigin="use-credentials"
+            className="w-full h-auto max-h-[50vh] object-contain rounded-lg"
+          />
+          <div className="absolute top-2 end-2 flex gap-1">
+            <Button asChild variant="secondary" size="icon" className="h-8 w-8">
+              <a href={getUrl(current.url)} target="_blank" rel="noopener noreferrer" aria-label="Open full size">
+                <Download className="h-4 w-4" />
+              </a>
+            </Button>
+            <Button variant="secondary" size="icon" className="h-8 w-8" onClick={() => setViewing(null)} aria-label="Close">
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+          {images.length > 1 && (
+            <>
+              <Button
+                variant="secondary"
+                size="icon"
+                className="absolute start-2 top-1/2 -translate-y-1/2 h-8 w-8"
+                onClick={() => step(-1)}
+                aria-label="Previous image"
+              >
+                <ChevronLeft className="h-4 w-4 rtl:rotate-180" />
+              </Button>
+              <Button
+                variant="secondary"
+                size="icon"
+                className="absolute end-2 top-1/2 -translate-y-1/2 h-8 w-8"
+                onClick={() => step(1)}
+                aria-label="Next image"
+              >
+                <ChevronRight className="h-4 w-4 rtl:rotate-180" />
+              </Button>
+            </>
+          )}
+          <p className="absolute bottom-2 left-2 right-2 text-xs text-white truncate">
+            {current.fileName} · {(viewing ?? 0) + 1} of {images.length}
+          </p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-3 sm:grid-cols-4 gap-2">
+        {attachments.map((attachment) => isImageAttachment(attachment.mimeType) ? (
+          <button
+            key={attachment.id}
+            type="button"
+            onClick={() => showImage(attachment)}
+            className="aspect-square rounded-lg overflow-hidden border hover:ring-2 hover:ring-blue-500"
+            title={`${attachment.fileName} (${formatBytes(attachment.size)})`}
+          >
+            <Image
+              src={getUrl(attachment.url)}
+              alt={attachment.fileName}
+              width={160}
+              height={160}
+              unoptimized
+              crossOrigin="use-credentials"
+              className="w-full h-full object-cover"
+            />
+          </button>
+        ) : (
+          <a
+            key={attachment.id}
+            href={getUrl(attachment.url)}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="aspect-square flex flex-col items-center justify-center gap-1 p-2 rounded-lg border bg-gray-50 hover:bg-gray-100 text-center"
+            title={attachment.fileName}
+          >
+            <FileText className="h-6 w-6 text-gray-500" />
+            <span className="text-xs truncate w-full">{attachment.fileName}</span>
+            <span className="text-xs text-gray-400">{formatBytes(attachment.size)}</span>
+          </a>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,137 @@
+"use client"
+
+import { useEffect, useState } from 'react'
+import Image from 'next/image'
+import { Button } from '@/components/ui/button'
+import { useToast } from '@/hooks/use-toast'
+import { ATTACHMENT_ACCEPT, MAX_ATTACHMENTS, getAttachmentError, isImageAttachment } from '@/lib/attachments'
+import { useI18n } from '@/lib/i18n/provider'
+import { cn, formatBytes } from '@/lib/utils'
+import { FileText, Paperclip, X } from 'lucide-react'
+
+interface AttachmentPickerProps {
+  files: File[]
+  maxBytes: number
+  disabled?: boolean
+  onChange: (files: File[]) => void
+}
+
+function AttachmentThumbnail({ file }: { file: File }) {
+  const [url, setUrl] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!isImageAttachment(file.type)) return
+    const objectUrl = URL.createObjectURL(file)
+    setUrl(objectUrl)
+    return () => URL.revokeObjectURL(objectUrl)
+  }, [file])
+
+  if (!url) {
+    return (
+      <div className="flex items-center justify-center w-10 h-10 rounded bg-gray-100 flex-shrink-0">
+        <FileText className="w-5 h-5 text-gray-500" />
+      </div>
+    )
+  }
+  return <Image src={url} alt="" width={40} height={40} unoptimized className="w-10 h-10 rounded object-cover flex-shrink-0" />
+}
+
+export function AttachmentPicker({ files, maxBytes, disabled, onChange }: AttachmentPickerProps) {
+  const { toast } = useToast()
+  const { t } = useI18n()
+
+  const handleAdd = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files ?? [])
+    // Allow picking the same file again after removing it
+    e.target.value = ''
+
+    const accepted: File[] = []
+    for (const file of selected) {
+      const error = getAttachmentError(file, maxBytes)
+      if (error) {
+        toast({
+          title: t('attachments.cannotAttach'),
+          description: error === 'type'
+            ? t('attachments.unsupported', { file: file.name })
+            : t('attachments.tooLarge', { file: file.name, size: formatBytes(maxBytes) }),
+          variant: 'destructive',
+        })
+        continue
+      }
+      accepted.push(file)
+    }
+
+    const room = MAX_ATTACHMENTS - files.length
+    if (accepted.length > room) {
+      toast({
+        title: t('attachments.tooMany'),
+        description: t('attachments.tooManyDescription', { count: MAX_ATTACHMENTS }),
+        variant: 'destructive',
+      })
+    }
+    if (accepted.length > 0 && room > 0) {
+      onChange([...files, ...accepted.slice(0, room)])
+    }
+  }
+
+  const handleRemove = (index: number) => {
+    onChange(files.filter((_, i) => i !== index))
+  }
+
+  return (
+    <div className="space-y-2">
+      <div>
+        <p className="text-sm md:text-base font-medium">
+          {t('attachments.title')} <span className="text-gray-400 font-normal">{t('attachments.optional')}</span>
+        </p>
+        <p className="text-xs text-gray-500">
+          {maxBytes > 0
+            ? t('attachments.hintWithSize', { count: MAX_ATTACHMENTS, size: formatBytes(maxBytes) })
+            : t('attachments.hint', { count: MAX_ATTACHMENTS })}
+        </p>
+      </div>
+
+      {files.length > 0 && (
+        <ul className="space-y-2">
+          {files.map((file, index) => (
+            <li key={`${file.name}-${file.lastModified}-${index}`} className="flex items-center gap-3 p-2 border rounded-lg">
+              <AttachmentThumbnail file={file} />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm truncate">{file.name}</p>
+                <p className="text-xs text-gray-500">{formatBytes(file.size)}</p>
+              </div>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => handleRemove(index)}
+                disabled={disabled}
+                aria-label={t('attachments.remove', { file: file.name })}
+              >
+                <X className="w-4 h-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {files.length < MAX_ATTACHMENTS && (
+        <label className={cn(
+          "flex items-center justify-center gap-2 h-12 border-2 border-dashed rounded-lg text-sm text-gray-500 transition-colors",
+          disabled ? "opacity-50 cursor-not-allowed" : "cursor-pointer border-gray-300 hover:border-gray-400 hover:bg-gray-50"
+        )}>
+          <Paperclip className="w-4 h-4" />
+          {t('attachments.add')}
+          <input
+            type="file"
+            className="hidden"
+            accept={ATTACHMENT_ACCEPT}
+            multiple
+            disabled={disabled}
+            onChange={handleAdd}
+          />
+        </label>
+      )}
+    </div>
+  )
+}
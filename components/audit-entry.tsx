@@ -0,0 +1,45 @@
+import { AUDIT_ACTION_LABELS, AUDIT_TARGET_LABELS, formatAuditValue } from '@/lib/audit'
+import type { AuditEntry } from '@/types'
+
+interface AuditEntryItemProps {
+  entry: AuditEntry
+  // Off in a single testimony's history, where the target goes without saying
+  showTarget?: boolean
+}
+
+export function AuditEntryItem({ entry, showTarget = true }: AuditEntryItemProps) {
+  const changes = Object.entries(entry.changes ?? {})
+
+  return (
+    <div className="text-sm space-y-2">
+      <div className="flex flex-wrap items-baseline justify-between gap-x-4 gap-y-1">
+        <p>
+          <span className="font-medium">{entry.admin?.name ?? 'Deleted admin'}</span>
+          <span className="text-gray-600"> · {AUDIT_ACTION_LABELS[entry.action] ?? entry.action}</span>
+          {showTarget && entry.targetId && (
+            <span className="text-gray-400">
+              {' '}· {AUDIT_TARGET_LABELS[entry.targetType]} <span className="font-mono text-xs">{entry.targetId}</span>
+            </span>
+          )}
+        </p>
+        <time dateTime={entry.createdAt} className="text-xs text-gray-400">
+          {new Date(entry.createdAt).toLocaleString()}
+        </time>
+      </div>
+      {changes.length > 0 && (
+        <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-xs bg-gray-50 rounded-lg p-3">
+          {changes.map(([field, { before, after }]) => (
+            <div key={field} className="contents">
+              <dt className="text-gray-500">{field}</dt>
+              <dd className="break-words">
+                <span className="text-red-600 line-through">{formatAuditValue(before)}</span>
+                {' → '}
+                <span className="text-green-700">{formatAuditValue(after)}</span>
+              </dd>
+            </div>
+          ))}
+        </dl>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,81 @@
+"use client"
+
+import { Button } from '@/components/ui/button'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Progress } from '@/components/ui/progress'
+import type { BulkProgress } from '@/lib/bulk'
+import { AlertCircle, CheckCircle2, Loader2 } from 'lucide-react'
+
+interface BulkProgressDialogProps {
+  title: string
+  progress: BulkProgress | null
+  isRunning: boolean
+  // Names to show against failed ids
+  names: Record<string, string>
+  onStop: () => void
+  onClose: () => void
+}
+
+export function BulkProgressDialog({ title, progress, isRunning, names, onStop, onClose }: BulkProgressDialogProps) {
+  const done = progress?.done ?? 0
+  const total = progress?.total ?? 0
+  const failures = progress?.failures ?? []
+  const succeeded = done - failures.length
+  const stoppedEarly = !isRunning && done < total
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && !isRunning && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>
+            {!progress
+              ? 'Finding the matching testimonies...'
+              : isRunning
+                ? `${done.toLocaleString()} of ${total.toLocaleString()} done`
+                : `${succeeded.toLocaleString()} succeeded, ${failures.length.toLocaleString()} failed${stoppedEarly ? `, ${(total - done).toLocaleString()} not attempted` : ''}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {isRunning ? (
+            <div className="flex items-center gap-3">
+              <Loader2 className="h-4 w-4 animate-spin flex-shrink-0" />
+              <Progress value={total ? (done / total) * 100 : 0} className="h-2" />
+            </div>
+          ) : failures.length === 0 ? (
+            <p className="flex items-center gap-2 text-sm text-green-700">
+              <CheckCircle2 className="h-4 w-4" />
+              {stoppedEarly ? 'Stopped. Everything attempted went through.' : 'All done.'}
+            </p>
+          ) : null}
+
+          {failures.length > 0 && (
+            <div className="space-y-2">
+              <p className="flex items-center gap-2 text-sm font-medium text-red-600">
+                <AlertCircle className="h-4 w-4" />
+                Failed
+              </p>
+              <ul className="max-h-60 overflow-y-auto divide-y border rounded-lg text-sm">
+                {failures.map((failure) => (
+                  <li key={failure.id} className="flex justify-between gap-4 px-3 py-2">
+                    <span className="truncate">{names[failure.id] || failure.id}</span>
+                    <span className="text-gray-500 text-end">{failure.error || 'Failed'}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          {isRunning ? (
+            <Button variant="outline" onClick={onStop}>Stop</Button>
+          ) : (
+            <Button onClick={onClose}>Close</Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
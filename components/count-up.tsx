@@ -0,0 +1,54 @@
+"use client"
+
+import { useEffect, useRef, useState } from 'react'
+
+const DURATION = 1200
+
+// Renders the final number on the server so crawlers and no-JS visitors see
+// the real figure. Only counts up if it starts out of view, so the number
+// already on screen never drops back to 0.
+export function CountUp({ value }: { value: number }) {
+  const [display, setDisplay] = useState(value)
+  const element = useRef<HTMLSpanElement>(null)
+
+  useEffect(() => {
+    const target = element.current
+    if (!target || window.matchMedia('(prefers-reduced-motion: reduce)').matches) return
+
+    let frame = 0
+    const animate = () => {
+      const start = performance.now()
+      const tick = (now: number) => {
+        const progress = Math.min(1, (now - start) / DURATION)
+        // Ease out so the last digits settle gently
+        setDisplay(Math.round(value * (1 - Math.pow(1 - progress, 3))))
+        if (progress < 1) frame = requestAnimationFrame(tick)
+      }
+      frame = requestAnimationFrame(tick)
+    }
+
+    let seen = false
+    const observer = new IntersectionObserver(([entry]) => {
+      if (!seen) {
+        seen = true
+        if (entry.isIntersecting) {
+          observer.disconnect()
+          return
+        }
+        setDisplay(0)
+      } else if (entry.isIntersecting) {
+        observer.disconnect()
+        animate()
+      }
+    })
+    observer.observe(target)
+
+    return () => {
+      observer.disconnect()
+      cancelAnimationFrame(frame)
+      setDisplay(value)
+    }
+  }, [value])
+
+  return <span ref={element}>{display.toLocaleString('en')}</span>
+}
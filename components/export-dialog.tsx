@@ -0,0 +1,162 @@
+"use client"
+
+import { useEffect, useRef, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Progress } from '@/components/ui/progress'
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { useToast } from '@/hooks/use-toast'
+import { forEachTestimonyPage, type TestimonyFilters } from '@/lib/api'
+import { EXPORT_COLUMNS, XLSX_MAX_ROWS, ExportLimitError, createExportWriter, downloadBlob, type ExportFormat } from '@/lib/export'
+import { Download, Loader2 } from 'lucide-react'
+
+interface ExportDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  filters: TestimonyFilters
+  // How many testimonies the filters currently match
+  total: number
+}
+
+// Downloads every testimony matching the filters, not just the page on screen.
+// They're fetched a page at a time and written out as they arrive, so large
+// exports show progress and can be cancelled part way.
+export function ExportDialog({ open, onOpenChange, filters, total }: ExportDialogProps) {
+  const [format, setFormat] = useState<ExportFormat>('xlsx')
+  const [columnIds, setColumnIds] = useState<string[]>(() => EXPORT_COLUMNS.map((column) => column.id))
+  const [progress, setProgress] = useState<{ loaded: number; total: number } | null>(null)
+  const controller = useRef<AbortController | null>(null)
+  const { toast } = useToast()
+  const isTooLargeForXlsx = total > XLSX_MAX_ROWS
+
+  useEffect(() => {
+    if (isTooLargeForXlsx) setFormat('csv')
+  }, [isTooLargeForXlsx])
+
+  useEffect(() => {
+    if (!open) {
+      controller.current?.abort()
+      setProgress(null)
+    }
+  }, [open])
+
+  const toggleColumn = (id: string, checked: boolean) => {
+    setColumnIds((current) => (checked ? [...current, id] : current.filter((columnId) => columnId !== id)))
+  }
+
+  const handleExport = async () => {
+    const abort = new AbortController()
+    controller.current = abort
+    setProgress({ loaded: 0, total })
+    try {
+      const columns = EXPORT_COLUMNS.filter((column) => columnIds.includes(column.id))
+      const writer = createExportWriter(columns, format)
+      await forEachTestimonyPage(filters, (testimonies, loaded, matching) => {
+        // More may match now than when the dialog opened; stop on the first page
+        if (format === 'xlsx' && matching > XLSX_MAX_ROWS) throw new ExportLimitError()
+        writer.add(testimonies)
+        setProgress({ loaded, total: matching })
+      }, abort.signal)
+      const blob = await writer.finish()
+      if (abort.signal.aborted) return
+      downloadBlob(blob, `testimonies-${new Date().toISOString().slice(0, 10)}.${format}`)
+      onOpenChange(false)
+    } catch (error) {
+      if (abort.signal.aborted) return
+      setProgress(null)
+      if (error instanceof ExportLimitError) setFormat('csv')
+      toast({
+        title: 'Error',
+        description: error instanceof ExportLimitError ? error.message : 'Failed to export testimonies',
+        variant: 'destructive',
+      })
+    }
+  }
+
+  const isExporting = progress !== null
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Export testimonies</DialogTitle>
+          <DialogDescription>
+            {isExporting
+              ? `Loaded ${progress.loaded.toLocaleString()} of ${progress.total.toLocaleString()}...`
+              : `All ${total.toLocaleString()} testimonies matching the current filters`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isExporting ? (
+          <div className="flex items-center gap-3 py-2">
+            <Loader2 className="h-4 w-4 animate-spin flex-shrink-0" />
+            <Progress value={progress.total ? (progress.loaded / progress.total) * 100 : 0} className="h-2" />
+          </div>
+        ) : (
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label>Format</Label>
+              <RadioGroup value={format} onValueChange={(v) => setFormat(v as ExportFormat)} className="flex gap-6">
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="xlsx" id="format-xlsx" disabled={isTooLargeForXlsx} />
+                  <Label htmlFor="format-xlsx" className="font-normal cursor-pointer">Excel (.xlsx)</Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="csv" id="format-csv" />
+                  <Label htmlFor="format-csv" className="font-normal cursor-pointer">CSV</Label>
+                </div>
+              </RadioGroup>
+              {isTooLargeForXlsx && (
+                <p className="text-sm text-gray-500">
+                  Excel exports are limited to {XLSX_MAX_ROWS.toLocaleString()} testimonies. Use CSV or narrow the filters.
+                </p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Columns</Label>
+                <div className="flex gap-3 text-sm">
+                  <button type="button" className="text-blue-600 hover:underline" onClick={() => setColumnIds(EXPORT_COLUMNS.map((column) => column.id))}>
+                    All
+                  </button>
+                  <button type="button" className="text-blue-600 hover:underline" onClick={() => setColumnIds([])}>
+                    None
+                  </button>
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-2 max-h-64 overflow-y-auto border rounded-lg p-3">
+                {EXPORT_COLUMNS.map((column) => (
+                  <div key={column.id} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`column-${column.id}`}
+                      checked={columnIds.includes(column.id)}
+                      onCheckedChange={(checked) => toggleColumn(column.id, checked === true)}
+                    />
+                    <Label htmlFor={`column-${column.id}`} className="font-normal cursor-pointer">{column.label}</Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleExport} disabled={isExporting || columnIds.length === 0 || total === 0}>
+            {isExporting ? (
+              <Loader2 className="h-4 w-4 me-2 animate-spin" />
+            ) : (
+              <Download className="h-4 w-4 me-2" />
+            )}
+            Export
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
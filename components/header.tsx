@@ -2,12 +2,37 @@
 
 import Link from 'next/link'
 import Image from 'next/image'
-import { Button } from '@/components/ui/button'
-import { Menu, X } from 'lucide-react'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { LOCALES, LOCALE_NAMES, type Locale } from '@/lib/i18n'
+import { useI18n } from '@/lib/i18n/provider'
+import { cn } from '@/lib/utils'
+import { Globe, Menu, X } from 'lucide-react'
 import { useState } from 'react'
 
+function LanguageSwitcher({ className }: { className?: string }) {
+  const { locale, setLocale, t } = useI18n()
+
+  return (
+    <Select value={locale} onValueChange={(v) => setLocale(v as Locale)}>
+      <SelectTrigger
+        aria-label={t('header.language')}
+        className={cn('h-8 w-auto gap-2 border-white/20 bg-transparent text-sm text-white/70 hover:text-white focus:ring-white/30', className)}
+      >
+        <Globe className="h-4 w-4" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {LOCALES.map((l) => (
+          <SelectItem key={l} value={l}>{LOCALE_NAMES[l]}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
+
 export function Header() {
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false)
+  const { t } = useI18n()
 
   return (
     <header className="sticky top-0 z-50 w-full bg-[#1a1a2e] border-b border-white/10">
@@ -26,9 +51,13 @@ export function Header() {
           </Link>
 
           <nav className="hidden md:flex items-center gap-6">
+            <Link href="/testimonies" className="text-sm text-white/70 hover:text-white">
+              {t('header.testimonies')}
+            </Link>
             <Link href="/submit" className="text-sm text-white/70 hover:text-white">
-              Share Testimony
+              {t('header.shareTestimony')}
             </Link>
+            <LanguageSwitcher />
           </nav>
 
           <button
@@ -42,13 +71,21 @@ export function Header() {
         {mobileMenuOpen && (
           <div className="md:hidden py-4 border-t border-white/10">
             <nav className="flex flex-col gap-3">
+              <Link
+                href="/testimonies"
+                className="text-sm text-white/70 hover:text-white"
+                onClick={() => setMobileMenuOpen(false)}
+              >
+                {t('header.testimonies')}
+              </Link>
               <Link
                 href="/submit"
                 className="text-sm text-white/70 hover:text-white"
                 onClick={() => setMobileMenuOpen(false)}
               >
-                Share Testimony
+                {t('header.shareTestimony')}
               </Link>
+              <LanguageSwitcher className="self-start" />
             </nav>
           </div>
         )}
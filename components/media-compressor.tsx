@@ -0,0 +1,100 @@
+"use client"
+
+import { useEffect, useRef, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Progress } from '@/components/ui/progress'
+import { compressMedia } from '@/lib/compress'
+import { getErrorMessage } from '@/lib/errors'
+import type { MediaKind } from '@/lib/media'
+import { useI18n } from '@/lib/i18n/provider'
+import { formatBytes } from '@/lib/utils'
+import { AlertCircle, Minimize2, X } from 'lucide-react'
+
+interface MediaCompressorProps {
+  file: File
+  kind: MediaKind
+  maxBytes: number
+  onCompressed: (file: File) => void
+  onDismiss: () => void
+}
+
+// Offered when a chosen file is over the size limit; compression only starts
+// once the submitter asks for it
+export function MediaCompressor({ file, kind, maxBytes, onCompressed, onDismiss }: MediaCompressorProps) {
+  const [isCompressing, setIsCompressing] = useState(false)
+  const [progress, setProgress] = useState(0)
+  const [error, setError] = useState<string | null>(null)
+  const controller = useRef<AbortController | null>(null)
+  const { t } = useI18n()
+
+  useEffect(() => {
+    return () => controller.current?.abort()
+  }, [])
+
+  const handleCompress = async () => {
+    setError(null)
+    setProgress(0)
+    setIsCompressing(true)
+    controller.current = new AbortController()
+    try {
+      const compressed = await compressMedia(file, kind, maxBytes, {
+        signal: controller.current.signal,
+        onProgress: setProgress,
+      })
+      onCompressed(compressed)
+    } catch (err) {
+      if (err instanceof Error && err.name === 'AbortError') return
+      setError(getErrorMessage(err, t, 'compressor.failed'))
+    } finally {
+      setIsCompressing(false)
+      controller.current = null
+    }
+  }
+
+  const handleCancel = () => {
+    controller.current?.abort()
+  }
+
+  return (
+    <div className="space-y-3 p-3 md:p-4 border border-amber-200 bg-amber-50 rounded-lg">
+      <div className="flex items-start gap-2 text-xs md:text-sm text-amber-800">
+        <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+        <p>
+          {t(kind === 'VIDEO' ? 'compressor.overLimitVideo' : 'compressor.overLimitAudio', {
+            file: file.name,
+            size: formatBytes(file.size),
+            limit: formatBytes(maxBytes),
+          })}
+        </p>
+      </div>
+
+      {isCompressing && (
+        <div className="space-y-1">
+          <Progress value={progress} className="h-2" />
+          <p className="text-xs text-gray-500">{t('compressor.compressing', { percent: Math.floor(progress) })}</p>
+        </div>
+      )}
+
+      {error && <p className="text-xs md:text-sm text-red-600">{error}</p>}
+
+      <div className="flex justify-end gap-2">
+        {isCompressing ? (
+          <Button type="button" variant="outline" size="sm" onClick={handleCancel}>
+            <X className="w-4 h-4 me-1" />
+            {t('common.cancel')}
+          </Button>
+        ) : (
+          <>
+            <Button type="button" variant="outline" size="sm" onClick={onDismiss}>
+              {t('compressor.chooseAnother')}
+            </Button>
+            <Button type="button" size="sm" onClick={handleCompress} className="bg-[#1a1a2e] hover:bg-[#2a2a4e]">
+              <Minimize2 className="w-4 h-4 me-1" />
+              {t('compressor.compress')}
+            </Button>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
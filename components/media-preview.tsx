@@ -0,0 +1,41 @@
+"use client"
+
+import { useEffect, useState } from 'react'
+import { formatDuration, type MediaInfo, type MediaKind } from '@/lib/media'
+import { formatBytes } from '@/lib/utils'
+
+export function describeMedia(file: File, info: MediaInfo): string {
+  return [
+    formatDuration(info.duration),
+    info.width && info.height ? `${info.width}×${info.height}` : null,
+    info.codecs.length > 0 ? `${info.container.toUpperCase()} (${info.codecs.join(', ')})` : info.container.toUpperCase(),
+    formatBytes(file.size),
+  ].filter(Boolean).join(' · ')
+}
+
+interface MediaPreviewProps {
+  file: File
+  kind: MediaKind
+  info: MediaInfo
+}
+
+export function MediaPreview({ file, kind, info }: MediaPreviewProps) {
+  const [url, setUrl] = useState<string | null>(null)
+
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(file)
+    setUrl(objectUrl)
+    return () => URL.revokeObjectURL(objectUrl)
+  }, [file])
+
+  return (
+    <div className="space-y-2">
+      {url && (
+        kind === 'VIDEO'
+          ? <video src={url} poster={info.poster} controls playsInline className="w-full max-h-72 rounded-lg bg-black" />
+          : <audio src={url} controls className="w-full" />
+      )}
+      <p className="text-xs text-gray-500 text-center">{describeMedia(file, info)}</p>
+    </div>
+  )
+}
@@ -0,0 +1,295 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Progress } from '@/components/ui/progress'
+import { AlertCircle, Circle, Pause, Play, RotateCcw, Square, Check } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { useI18n } from '@/lib/i18n/provider'
+import { pickRecorderMimeType, getRecorderExtension, formatDuration, type MediaKind } from '@/lib/media'
+
+type RecorderState = 'idle' | 'requesting' | 'countdown' | 'recording' | 'paused' | 'recorded' | 'error'
+
+const VIDEO_BITS_PER_SECOND = 2_500_000
+const AUDIO_BITS_PER_SECOND = 128_000
+const COUNTDOWN_SECONDS = 3
+// Leave headroom for container overhead and encoder bitrate overshoot
+const SIZE_SAFETY_FACTOR = 0.9
+
+export function isRecordingSupported(): boolean {
+  return typeof window !== 'undefined' &&
+    typeof MediaRecorder !== 'undefined' &&
+    !!navigator.mediaDevices?.getUserMedia
+}
+
+// Longest recording that stays under the size limit at the bitrate we ask the encoder for
+export function getMaxRecordingSeconds(kind: MediaKind, maxBytes: number): number {
+  const bitsPerSecond = kind === 'VIDEO'
+    ? VIDEO_BITS_PER_SECOND + AUDIO_BITS_PER_SECOND
+    : AUDIO_BITS_PER_SECOND
+  return Math.floor((maxBytes * 8 * SIZE_SAFETY_FACTOR) / bitsPerSecond)
+}
+
+interface MediaRecorderPanelProps {
+  kind: MediaKind
+  maxBytes: number
+  // Length limits from the storage settings, in seconds (see getDurationLimits)
+  durationLimits: { min: number; max: number }
+  onRecorded: (file: File) => void
+}
+
+export function MediaRecorderPanel({ kind, maxBytes, durationLimits, onRecorded }: MediaRecorderPanelProps) {
+  const [state, setState] = useState<RecorderState>('idle')
+  const [error, setError] = useState<string | null>(null)
+  const [countdown, setCountdown] = useState(COUNTDOWN_SECONDS)
+  const [elapsed, setElapsed] = useState(0)
+  const [recording, setRecording] = useState<File | null>(null)
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null)
+  const { t } = useI18n()
+
+  const streamRef = useRef<MediaStream | null>(null)
+  const recorderRef = useRef<MediaRecorder | null>(null)
+  const chunksRef = useRef<Blob[]>([])
+  const bytesRef = useRef(0)
+  const liveVideoRef = useRef<HTMLVideoElement | null>(null)
+  const mountedRef = useRef(false)
+
+  // Whichever comes first: the size limit or the longest recording allowed
+  const maxSeconds = Math.min(getMaxRecordingSeconds(kind, maxBytes), durationLimits.max)
+  const isTooShort = elapsed < durationLimits.min
+
+  const stopStream = useCallback(() => {
+    streamRef.current?.getTracks().forEach(track => track.stop())
+    streamRef.current = null
+  }, [])
+
+  // Release the camera/microphone and preview URL when the panel goes away
+  useEffect(() => {
+    mountedRef.current = true
+    return () => {
+      mountedRef.current = false
+      if (recorderRef.current?.state !== 'inactive') recorderRef.current?.stop()
+      stopStream()
+    }
+  }, [stopStream])
+
+  useEffect(() => {
+    return () => {
+      if (previewUrl) URL.revokeObjectURL(previewUrl)
+    }
+  }, [previewUrl])
+
+  useEffect(() => {
+    if (liveVideoRef.current && streamRef.current) {
+      liveVideoRef.current.srcObject = streamRef.current
+    }
+  }, [state])
+
+  const stopRecording = useCallback(() => {
+    if (recorderRef.current && recorderRef.current.state !== 'inactive') {
+      recorderRef.current.stop()
+    }
+  }, [])
+
+  const beginRecording = useCallback(() => {
+    const stream = streamRef.current
+    if (!stream) return
+
+    const mimeType = pickRecorderMimeType(kind)
+    const recorder = new MediaRecorder(stream, {
+      mimeType,
+      audioBitsPerSecond: AUDIO_BITS_PER_SECOND,
+      videoBitsPerSecond: kind === 'VIDEO' ? VIDEO_BITS_PER_SECOND : undefined,
+    })
+
+    chunksRef.current = []
+    bytesRef.current = 0
+
+    recorder.ondataavailable = (e) => {
+      if (e.data.size === 0) return
+      chunksRef.current.push(e.data)
+      bytesRef.current += e.data.size
+      if (bytesRef.current >= maxBytes * SIZE_SAFETY_FACTOR) stopRecording()
+    }
+
+    recorder.onstop = () => {
+      const type = recorder.mimeType || mimeType || (kind === 'VIDEO' ? 'video/webm' : 'audio/webm')
+      const extension = getRecorderExtension(kind, type)
+      const blob = new Blob(chunksRef.current, { type })
+      const file = new File([blob], `testimony-${Date.now()}.${extension}`, { type })
+
+      stopStream()
+      setRecording(file)
+      setPreviewUrl(URL.createObjectURL(file))
+      setState('recorded')
+    }
+
+    recorder.start(1000)
+    recorderRef.current = recorder
+    setElapsed(0)
+    setState('recording')
+  }, [kind, maxBytes, stopRecording, stopStream])
+
+  // Countdown before recording starts
+  useEffect(() => {
+    if (state !== 'countdown') return
+    if (countdown === 0) {
+      beginRecording()
+      return
+    }
+    const timeoutId = setTimeout(() => setCountdown(countdown - 1), 1000)
+    return () => clearTimeout(timeoutId)
+  }, [state, countdown, beginRecording])
+
+  // Recording clock, stopping automatically at the length cap
+  useEffect(() => {
+    if (state !== 'recording') return
+    const intervalId = setInterval(() => setElapsed(prev => prev + 0.25), 250)
+    return () => clearInterval(intervalId)
+  }, [state])
+
+  useEffect(() => {
+    if (state === 'recording' && elapsed >= maxSeconds) stopRecording()
+  }, [state, elapsed, maxSeconds, stopRecording])
+
+  const handleStart = async () => {
+    setError(null)
+    setState('requesting')
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({
+        audio: true,
+        video: kind === 'VIDEO' ? { facingMode: 'user', width: { ideal: 1280 }, height: { ideal: 720 } } : false,
+      })
+      // Permission prompts can outlast the panel; don't leave the camera on
+      if (!mountedRef.current) {
+        stream.getTracks().forEach(track => track.stop())
+        return
+      }
+      streamRef.current = stream
+      setCountdown(COUNTDOWN_SECONDS)
+      setState('countdown')
+    } catch (err) {
+      setError(
+        err instanceof DOMException && err.name === 'NotAllowedError'
+          ? t(kind === 'VIDEO' ? 'recorder.allowCamera' : 'recorder.allowMicrophone')
+          : t('recorder.cannotStart')
+      )
+      setState('error')
+    }
+  }
+
+  const handlePause = () => {
+    recorderRef.current?.pause()
+    setState('paused')
+  }
+
+  const handleResume = () => {
+    recorderRef.current?.resume()
+    setState('recording')
+  }
+
+  const handleReRecord = () => {
+    setRecording(null)
+    setPreviewUrl(null)
+    setElapsed(0)
+    handleStart()
+  }
+
+  const isLive = state === 'countdown' || state === 'recording' || state === 'paused'
+
+  return (
+    <div className="border rounded-lg p-3 md:p-4 space-y-3">
+      {kind === 'VIDEO' && isLive && (
+        <div className="relative">
+          <video ref={liveVideoRef} autoPlay muted playsInline className="w-full rounded-lg bg-black aspect-video" />
+          {state === 'countdown' && (
+            <div className="absolute inset-0 flex items-center justify-center text-6xl font-bold text-white bg-black/40 rounded-lg">
+              {countdown}
+            </div>
+          )}
+        </div>
+      )}
+
+      {kind === 'AUDIO' && state === 'countdown' && (
+        <div className="text-center text-4xl font-bold py-6">{countdown}</div>
+      )}
+
+      {(state === 'recording' || state === 'paused') && (
+        <div className="space-y-1">
+          <div className="flex items-center justify-between text-sm">
+            <span className="flex items-center gap-2">
+              <span className={cn("w-2 h-2 rounded-full bg-red-500", state === 'recording' && "animate-pulse")} />
+              {t(state === 'paused' ? 'recorder.paused' : 'recorder.recording')}
+            </span>
+            <span className="tabular-nums text-gray-500">{formatDuration(elapsed)} / {formatDuration(maxSeconds)}</span>
+          </div>
+          <Progress value={(elapsed / maxSeconds) * 100} className="h-1.5" />
+        </div>
+      )}
+
+      {state === 'recorded' && previewUrl && (
+        kind === 'VIDEO'
+          ? <video src={previewUrl} controls playsInline className="w-full rounded-lg bg-black" />
+          : <audio src={previewUrl} controls className="w-full" />
+      )}
+
+      {state === 'recorded' && isTooShort && (
+        <p className="text-xs text-amber-700 text-center">
+          {t('recorder.tooShort', { seconds: durationLimits.min })}
+        </p>
+      )}
+
+      {state === 'error' && error && (
+        <div className="flex items-start gap-2 text-sm text-red-600">
+          <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+          <p>{error}</p>
+        </div>
+      )}
+
+      {(state === 'idle' || state === 'error') && (
+        <p className="text-xs text-gray-500 text-center">
+          {t('recorder.maxLength', { duration: formatDuration(maxSeconds) })}
+        </p>
+      )}
+
+      <div className="flex flex-wrap justify-center gap-2">
+        {(state === 'idle' || state === 'error' || state === 'requesting') && (
+          <Button type="button" onClick={handleStart} disabled={state === 'requesting'} className="bg-red-600 hover:bg-red-700">
+            <Circle className="w-4 h-4 me-2 fill-current" />
+            {t('recorder.start')}
+          </Button>
+        )}
+        {state === 'recording' && (
+          <Button type="button" variant="outline" onClick={handlePause}>
+            <Pause className="w-4 h-4 me-2" />
+            {t('recorder.pause')}
+          </Button>
+        )}
+        {state === 'paused' && (
+          <Button type="button" variant="outline" onClick={handleResume}>
+            <Play className="w-4 h-4 me-2" />
+            {t('recorder.resume')}
+          </Button>
+        )}
+        {(state === 'recording' || state === 'paused') && (
+          <Button type="button" onClick={stopRecording} className="bg-[#1a1a2e] hover:bg-[#2a2a4e]">
+            <Square className="w-4 h-4 me-2 fill-current" />
+            {t('recorder.stop')}
+          </Button>
+        )}
+        {state === 'recorded' && recording && (
+          <>
+            <Button type="button" variant="outline" onClick={handleReRecord}>
+              <RotateCcw className="w-4 h-4 me-2" />
+              {t('recorder.reRecord')}
+            </Button>
+            <Button type="button" onClick={() => onRecorded(recording)} disabled={isTooShort} className="bg-[#1a1a2e] hover:bg-[#2a2a4e]">
+              <Check className="w-4 h-4 me-2" />
+              {t('recorder.useRecording')}
+            </Button>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,81 @@
+"use client"
+
+import { useEffect, useState } from 'react'
+import { dismissOutboxFailures, getOutboxState } from '@/lib/outbox'
+import { useI18n } from '@/lib/i18n/provider'
+import { CheckCircle2, CloudOff, AlertCircle } from 'lucide-react'
+
+type QueueState = 'queued' | 'sent' | 'failed'
+
+// Success page state for a testimony saved to the offline outbox. Read from
+// the outbox on mount, since it may have been sent before this page loaded,
+// and again whenever the service worker reports progress.
+export function QueuedSubmission() {
+  const [state, setState] = useState<QueueState>('queued')
+  const [error, setError] = useState<string | null>(null)
+  const { t } = useI18n()
+
+  useEffect(() => {
+    if (!('serviceWorker' in navigator)) return
+
+    const checkOutbox = async () => {
+      const { pending, failures } = await getOutboxState()
+      if (failures.length > 0) {
+        setError(failures[0].error || null)
+        setState('failed')
+        dismissOutboxFailures(failures)
+      } else if (pending === 0) {
+        // A failure already shown stays shown
+        setState((current) => (current === 'failed' ? current : 'sent'))
+      }
+    }
+
+    const handleMessage = (event: MessageEvent) => {
+      if (event.data?.type === 'OUTBOX_FAILED' || event.data?.type === 'OUTBOX_SENT') checkOutbox()
+    }
+
+    checkOutbox()
+    navigator.serviceWorker.addEventListener('message', handleMessage)
+    return () => navigator.serviceWorker.removeEventListener('message', handleMessage)
+  }, [])
+
+  if (state === 'sent') {
+    return (
+      <>
+        <div className="mb-4 md:mb-6">
+          <CheckCircle2 className="w-12 h-12 md:w-16 md:h-16 text-green-500 mx-auto" />
+        </div>
+        <h1 className="text-xl md:text-2xl font-semibold mb-2">{t('success.title')}</h1>
+        <p className="text-gray-600 mb-6 md:mb-8 text-sm md:text-base">
+          {t('success.sentDescription')}
+        </p>
+      </>
+    )
+  }
+
+  if (state === 'failed') {
+    return (
+      <>
+        <div className="mb-4 md:mb-6">
+          <AlertCircle className="w-12 h-12 md:w-16 md:h-16 text-red-500 mx-auto" />
+        </div>
+        <h1 className="text-xl md:text-2xl font-semibold mb-2">{t('success.failedTitle')}</h1>
+        <p className="text-gray-600 mb-6 md:mb-8 text-sm md:text-base">
+          {t('success.failedDescription', { error: error || t('success.failedFallback') })}
+        </p>
+      </>
+    )
+  }
+
+  return (
+    <>
+      <div className="mb-4 md:mb-6">
+        <CloudOff className="w-12 h-12 md:w-16 md:h-16 text-amber-500 mx-auto" />
+      </div>
+      <h1 className="text-xl md:text-2xl font-semibold mb-2">{t('success.queuedTitle')}</h1>
+      <p className="text-gray-600 mb-6 md:mb-8 text-sm md:text-base">
+        {t('success.queuedDescription')}
+      </p>
+    </>
+  )
+}
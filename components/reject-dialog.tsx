@@ -0,0 +1,98 @@
+"use client"
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { getAdminRejectionReasons } from '@/lib/api'
+import type { RejectionInput, RejectionReason } from '@/types'
+import { Loader2, XCircle } from 'lucide-react'
+
+interface RejectDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  description: string
+  isSubmitting?: boolean
+  onConfirm: (rejection: RejectionInput) => void
+}
+
+// Asks for a canned reason, free text, or both before rejecting
+export function RejectDialog({ open, onOpenChange, description, isSubmitting, onConfirm }: RejectDialogProps) {
+  const [reasons, setReasons] = useState<RejectionReason[]>([])
+  const [reasonId, setReasonId] = useState('')
+  const [note, setNote] = useState('')
+
+  useEffect(() => {
+    if (!open) return
+    setReasonId('')
+    setNote('')
+    getAdminRejectionReasons()
+      .then((result) => setReasons(result.reasons.filter((reason) => reason.isActive)))
+      .catch(console.error)
+  }, [open])
+
+  const canConfirm = !!reasonId || !!note.trim()
+
+  const handleConfirm = () => {
+    if (!canConfirm) return
+    onConfirm({
+      rejectionReasonId: reasonId || undefined,
+      rejectionNote: note.trim() || undefined,
+    })
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Reject testimony</DialogTitle>
+          <DialogDescription>{description}</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label>Reason</Label>
+            <Select value={reasonId} onValueChange={setReasonId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a reason" />
+              </SelectTrigger>
+              <SelectContent>
+                {reasons.length === 0 ? (
+                  <SelectItem value="none" disabled>No reasons set up yet</SelectItem>
+                ) : (
+                  reasons.map((reason) => (
+                    <SelectItem key={reason.id} value={reason.id}>{reason.label}</SelectItem>
+                  ))
+                )}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="rejection-note">Details</Label>
+            <Textarea
+              id="rejection-note"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Anything else moderators should know"
+              rows={3}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button variant="destructive" onClick={handleConfirm} disabled={isSubmitting || !canConfirm}>
+            {isSubmitting ? (
+              <Loader2 className="h-4 w-4 me-2 animate-spin" />
+            ) : (
+              <XCircle className="h-4 w-4 me-2" />
+            )}
+            Reject
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,30 @@
+"use client"
+
+import { useEffect } from 'react'
+import { usePathname } from 'next/navigation'
+import { requestOutboxSync } from '@/lib/outbox'
+
+const API_URL = process.env.NEXT_PUBLIC_API_URL || ''
+
+export function ServiceWorkerRegistration() {
+  // The partner-site widget runs in someone else's page and has no use for offline support
+  const isEmbed = usePathname().startsWith('/embed')
+
+  useEffect(() => {
+    if (isEmbed || !('serviceWorker' in navigator)) return
+
+    navigator.serviceWorker
+      .register(`/sw.js?api=${encodeURIComponent(API_URL)}`)
+      .then(() => requestOutboxSync())
+      .catch(console.error)
+
+    // Background Sync covers this in Chromium; other browsers need a nudge
+    const handleOnline = () => {
+      requestOutboxSync().catch(console.error)
+    }
+    window.addEventListener('online', handleOnline)
+    return () => window.removeEventListener('online', handleOnline)
+  }, [isEmbed])
+
+  return null
+}
@@ -0,0 +1,39 @@
+"use client"
+
+import { Button } from '@/components/ui/button'
+import { useToast } from '@/hooks/use-toast'
+import { Share2 } from 'lucide-react'
+
+interface ShareButtonProps {
+  title: string
+  text?: string
+}
+
+export function ShareButton({ title, text }: ShareButtonProps) {
+  const { toast } = useToast()
+
+  const handleShare = async () => {
+    const url = window.location.href
+    if (navigator.share) {
+      try {
+        await navigator.share({ title, text, url })
+      } catch {
+        // Dismissed by the user
+      }
+      return
+    }
+    try {
+      await navigator.clipboard.writeText(url)
+      toast({ title: 'Link copied', description: 'Paste it anywhere to share this testimony' })
+    } catch {
+      toast({ title: 'Could not copy link', description: url, variant: 'destructive' })
+    }
+  }
+
+  return (
+    <Button type="button" variant="outline" onClick={handleShare}>
+      <Share2 className="w-4 h-4 mr-2" />
+      Share
+    </Button>
+  )
+}
@@ -0,0 +1,70 @@
+"use client"
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { Card, CardContent } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { getMediaUrl } from '@/lib/api'
+import { getNameInitial, truncateText } from '@/lib/utils'
+import type { PublicTestimony } from '@/types'
+import { MapPin } from 'lucide-react'
+
+// Longer text testimonies are cut here until the reader expands them
+const EXCERPT_LENGTH = 280
+
+export function TestimonyCard({ testimony }: { testimony: PublicTestimony }) {
+  const [expanded, setExpanded] = useState(false)
+  const mediaUrl = getMediaUrl(testimony.mediaUrl)
+  const text = testimony.textContent || ''
+  const isLong = text.length > EXCERPT_LENGTH
+
+  return (
+    <Card className="overflow-hidden">
+      {testimony.contentType === 'VIDEO' && mediaUrl && (
+        <video src={mediaUrl} controls playsInline preload="metadata" className="w-full aspect-video bg-black" />
+      )}
+      <CardContent className="p-4 space-y-3">
+        <div className="flex flex-wrap items-center gap-2">
+          <Badge variant="secondary">{testimony.testimonyCategory.name}</Badge>
+          {testimony.network && <Badge variant="outline">{testimony.network.name}</Badge>}
+        </div>
+
+        {testimony.contentType === 'TEXT' && (
+          <div>
+            <p className="text-sm text-gray-700 whitespace-pre-wrap">
+              {expanded ? text : truncateText(text, EXCERPT_LENGTH)}
+            </p>
+            {isLong && (
+              <button
+                type="button"
+                onClick={() => setExpanded(!expanded)}
+                className="mt-1 text-sm font-medium text-[#1a1a2e] hover:underline"
+              >
+                {expanded ? 'Show less' : 'Read more'}
+              </button>
+            )}
+          </div>
+        )}
+
+        {testimony.contentType === 'AUDIO' && mediaUrl && (
+          <audio src={mediaUrl} controls preload="none" className="w-full" />
+        )}
+
+        <div className="flex items-center justify-between gap-2 text-xs text-gray-500">
+          <Link href={`/t/${testimony.id}`} className="font-medium text-gray-700 hover:underline">
+            {getNameInitial(testimony.name)}
+          </Link>
+          <span className="flex items-center gap-1 flex-shrink-0">
+            {testimony.country && (
+              <>
+                <MapPin className="w-3 h-3" />
+                {testimony.country.name} ·{' '}
+              </>
+            )}
+            {new Date(testimony.createdAt).toLocaleDateString()}
+          </span>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,132 @@
+"use client"
+
+import { useEffect, useRef, useState } from 'react'
+import { getMediaUrl } from '@/lib/api'
+import { EMBED_RESIZE_MESSAGE, type EmbedOptions } from '@/lib/embed'
+import { cn, getNameInitial, truncateText } from '@/lib/utils'
+import type { PublicTestimony } from '@/types'
+import { ChevronLeft, ChevronRight } from 'lucide-react'
+
+interface TestimonyCarouselProps {
+  testimonies: PublicTestimony[]
+  options: EmbedOptions
+}
+
+const EXCERPT_LENGTH = 320
+
+// Rotating view of approved testimonies for the partner-site widget. Runs
+// inside an iframe, so it reports its height for the host page to size it.
+export function TestimonyCarousel({ testimonies, options }: TestimonyCarouselProps) {
+  const [index, setIndex] = useState(0)
+  const [isPaused, setIsPaused] = useState(false)
+  const container = useRef<HTMLDivElement>(null)
+  const dark = options.theme === 'dark'
+  const accent = `#${options.accent}`
+  const current = testimonies[index]
+
+  useEffect(() => {
+    if (options.interval === 0 || isPaused || testimonies.length < 2) return
+    const timer = setInterval(() => setIndex((i) => (i + 1) % testimonies.length), options.interval * 1000)
+    return () => clearInterval(timer)
+  }, [options.interval, isPaused, testimonies.length])
+
+  useEffect(() => {
+    const target = container.current
+    if (!target || window.parent === window) return
+    const observer = new ResizeObserver(() => {
+      window.parent.postMessage({ type: EMBED_RESIZE_MESSAGE, height: target.offsetHeight }, '*')
+    })
+    observer.observe(target)
+    return () => observer.disconnect()
+  }, [])
+
+  const step = (delta: number) => {
+    setIndex((i) => (i + delta + testimonies.length) % testimonies.length)
+  }
+
+  return (
+    <div
+      ref={container}
+      className={cn('p-4 rounded-lg border', dark ? 'bg-[#0f0f1a] text-white border-white/10' : 'bg-white text-gray-900')}
+      onMouseEnter={() => setIsPaused(true)}
+      onMouseLeave={() => setIsPaused(false)}
+      onFocus={() => setIsPaused(true)}
+      onBlur={() => setIsPaused(false)}
+    >
+      {!current ? (
+        <p className={cn('text-sm text-center py-6', dark ? 'text-white/60' : 'text-gray-500')}>
+          No testimonies to show yet
+        </p>
+      ) : (
+        <div key={current.id} className="space-y-3 animate-in fade-in duration-500">
+          <span className="inline-block text-xs font-medium uppercase tracking-wide" style={{ color: dark ? undefined : accent }}>
+            {current.testimonyCategory.name}
+          </span>
+
+          {current.contentType === 'TEXT' && (
+            <p className="text-sm leading-relaxed whitespace-pre-wrap">
+              {truncateText(current.textContent || '', EXCERPT_LENGTH)}
+            </p>
+          )}
+          {current.contentType === 'VIDEO' && current.mediaUrl && (
+            <video
+              src={getMediaUrl(current.mediaUrl) || ''}
+              controls
+              playsInline
+              preload="metadata"
+              className="w-full aspect-video rounded bg-black"
+              onPlay={() => setIsPaused(true)}
+            />
+          )}
+          {current.contentType === 'AUDIO' && current.mediaUrl && (
+            <audio
+              src={getMediaUrl(current.mediaUrl) || ''}
+              controls
+              preload="none"
+              className="w-full"
+              onPlay={() => setIsPaused(true)}
+            />
+          )}
+
+          <div className={cn('flex items-center justify-between gap-2 text-xs', dark ? 'text-white/60' : 'text-gray-500')}>
+            <span>
+              {[getNameInitial(current.name), current.country?.name].filter(Boolean).join(' · ')}
+            </span>
+            <a
+              href={`/t/${current.id}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="font-medium hover:underline"
+              style={{ color: dark ? undefined : accent }}
+            >
+              Read more
+            </a>
+          </div>
+        </div>
+      )}
+
+      <div className={cn('flex items-center justify-between gap-2 mt-4 pt-3 border-t', dark ? 'border-white/10' : 'border-gray-100')}>
+        {testimonies.length > 1 ? (
+          <div className="flex items-center gap-1">
+            <button type="button" onClick={() => step(-1)} className="p-1 rounded hover:bg-black/5" aria-label="Previous testimony">
+              <ChevronLeft className="w-4 h-4 rtl:rotate-180" />
+            </button>
+            <span className="text-xs tabular-nums">{index + 1} / {testimonies.length}</span>
+            <button type="button" onClick={() => step(1)} className="p-1 rounded hover:bg-black/5" aria-label="Next testimony">
+              <ChevronRight className="w-4 h-4 rtl:rotate-180" />
+            </button>
+          </div>
+        ) : <span />}
+        <a
+          href="/submit"
+          target="_blank"
+          rel="noopener noreferrer"
+          className="text-xs font-medium px-3 py-1.5 rounded text-white"
+          style={{ backgroundColor: accent }}
+        >
+          Share your testimony
+        </a>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,85 @@
+"use client"
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Textarea } from '@/components/ui/textarea'
+import { useToast } from '@/hooks/use-toast'
+import { addTestimonyNote } from '@/lib/api'
+import type { TestimonyNote } from '@/types'
+import { Loader2 } from 'lucide-react'
+
+interface TestimonyNotesProps {
+  testimonyId: string
+  notes: TestimonyNote[]
+  onAdded: (note: TestimonyNote) => void
+  showComposer?: boolean
+  // For when the composer is opened from a keyboard shortcut
+  autoFocus?: boolean
+  onCancel?: () => void
+}
+
+// Moderators' thread of internal notes on a testimony
+export function TestimonyNotes({ testimonyId, notes, onAdded, showComposer = true, autoFocus, onCancel }: TestimonyNotesProps) {
+  const [body, setBody] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+  const { toast } = useToast()
+
+  const handleSave = async () => {
+    if (!body.trim() || isSaving) return
+    setIsSaving(true)
+    try {
+      onAdded(await addTestimonyNote(testimonyId, body.trim()))
+      setBody('')
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to save note',
+        variant: 'destructive',
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      {notes.length === 0 && !showComposer && (
+        <p className="text-sm text-gray-500">No notes yet</p>
+      )}
+      {notes.map((note) => (
+        <div key={note.id} className="text-sm bg-gray-50 rounded-lg p-3">
+          <p className="whitespace-pre-wrap">{note.body}</p>
+          <p className="text-xs text-gray-400 mt-1">{note.author.name} · {new Date(note.createdAt).toLocaleString()}</p>
+        </div>
+      ))}
+      {showComposer && (
+        <div className="space-y-2">
+          <Textarea
+            autoFocus={autoFocus}
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) handleSave()
+              if (e.key === 'Escape' && onCancel) {
+                e.preventDefault()
+                onCancel()
+              }
+            }}
+            placeholder="Add a note for other moderators..."
+            rows={2}
+          />
+          <div className="flex items-center gap-2">
+            <Button size="sm" onClick={handleSave} disabled={isSaving || !body.trim()}>
+              {isSaving && <Loader2 className="h-4 w-4 me-2 animate-spin" />}
+              Add note
+            </Button>
+            {onCancel && (
+              <Button size="sm" variant="ghost" onClick={onCancel}>Cancel</Button>
+            )}
+            <span className="text-xs text-gray-400">Ctrl+Enter to save</span>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
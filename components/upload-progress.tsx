@@ -0,0 +1,75 @@
+"use client"
+
+import { useEffect, useRef, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Progress } from '@/components/ui/progress'
+import { useI18n } from '@/lib/i18n/provider'
+import { formatBytes } from '@/lib/utils'
+import { X } from 'lucide-react'
+
+// Speed is averaged over this window so the ETA doesn't jump around
+const SPEED_WINDOW = 5000
+
+interface Sample {
+  time: number
+  uploaded: number
+}
+
+function formatDuration(seconds: number): string {
+  if (!isFinite(seconds)) return '--'
+  if (seconds < 60) return `${Math.max(1, Math.round(seconds))}s`
+  const minutes = Math.floor(seconds / 60)
+  if (minutes < 60) return `${minutes}m ${Math.round(seconds % 60)}s`
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`
+}
+
+interface UploadProgressProps {
+  uploaded: number
+  total: number
+  onCancel?: () => void
+}
+
+export function UploadProgress({ uploaded, total, onCancel }: UploadProgressProps) {
+  const samples = useRef<Sample[]>([])
+  const [speed, setSpeed] = useState(0)
+  const { t } = useI18n()
+
+  useEffect(() => {
+    const now = Date.now()
+    samples.current = [
+      ...samples.current.filter(s => now - s.time < SPEED_WINDOW),
+      { time: now, uploaded },
+    ]
+    const first = samples.current[0]
+    const elapsed = (now - first.time) / 1000
+    if (elapsed > 0.5) {
+      setSpeed(Math.max(0, (uploaded - first.uploaded) / elapsed))
+    }
+  }, [uploaded])
+
+  const percent = total > 0 ? Math.min(100, (uploaded / total) * 100) : 0
+  const eta = speed > 0 ? (total - uploaded) / speed : Infinity
+
+  return (
+    <div className="space-y-2 p-3 md:p-4 border rounded-lg">
+      <div className="flex items-center justify-between gap-2 text-sm">
+        <span className="font-medium">{t('upload.progress', { percent: Math.floor(percent) })}</span>
+        {onCancel && (
+          <Button variant="ghost" size="sm" onClick={onCancel} className="h-7 px-2 text-gray-500">
+            <X className="w-4 h-4 me-1" />
+            {t('common.cancel')}
+          </Button>
+        )}
+      </div>
+      <Progress value={percent} className="h-2" />
+      <div className="flex justify-between gap-2 text-xs text-gray-500">
+        <span>{t('upload.transferred', { uploaded: formatBytes(uploaded), total: formatBytes(total) })}</span>
+        <span>
+          {speed > 0
+            ? t('upload.speed', { speed: formatBytes(speed), eta: formatDuration(eta) })
+            : t('upload.calculating')}
+        </span>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,23 @@
+"use client"
+
+import { useEffect } from 'react'
+import { recordTestimonyView } from '@/lib/api'
+
+const VIEWED_KEY_PREFIX = 'abtm:viewed:'
+
+// Counts a view from the browser rather than the server render, so link
+// previews and crawlers don't inflate viewCount
+export function ViewTracker({ testimonyId }: { testimonyId: string }) {
+  useEffect(() => {
+    const key = `${VIEWED_KEY_PREFIX}${testimonyId}`
+    try {
+      if (sessionStorage.getItem(key)) return
+      sessionStorage.setItem(key, '1')
+    } catch {
+      // sessionStorage unavailable - count it anyway
+    }
+    recordTestimonyView(testimonyId).catch(() => {})
+  }, [testimonyId])
+
+  return null
+}
@@ -12,7 +12,21 @@ import type {
   Group,
   StorageSettingsResponse,
   StorageSettings,
+  UploadLimits,
+  PublicTestimony,
+  DuplicateCheckInput,
+  PublicationConsent,
+  BulkResult,
+  TestimonyNote,
+  RejectionReason,
+  RejectionInput,
+  AuditAction,
+  AuditEntry,
+  AuditTargetType,
 } from '@/types'
+import { uploadMedia, clearUpload, type UploadOptions } from './upload'
+import { CHALLENGE_HEADER, GATEWAY_PATH, getChallengeProvider } from './challenge'
+import { LocalizedError, NetworkError, networkFetch } from './errors'
 
 const API_URL = process.env.NEXT_PUBLIC_API_URL || ''
 
@@ -63,45 +77,100 @@ export async function getCountries(): Promise<Country[]> {
   return data.countries
 }
 
+// Used until the real limits load, or if they can't be; the server enforces
+// its own either way
+export const DEFAULT_UPLOAD_LIMITS: UploadLimits = {
+  maxVideoFileSize: 100 * 1024 * 1024,
+  maxAudioFileSize: 20 * 1024 * 1024,
+  maxAttachmentFileSize: 10 * 1024 * 1024,
+  minMediaDuration: 5,
+  maxVideoDuration: 30 * 60,
+  maxAudioDuration: 60 * 60,
+  usagePercent: 0,
+}
+
+export async function getUploadLimits(): Promise<UploadLimits> {
+  const data = await fetchApi<{ limits: UploadLimits }>('/api/settings/upload-limits')
+  return data.limits
+}
+
 export async function getGroups(zoneId: string): Promise<Group[]> {
   const data = await fetchApi<{ groups: Group[] }>(`/api/groups?zoneId=${zoneId}`)
   return data.groups
 }
 
+// Anonymous writes go through this app's gateway routes rather than straight
+// to the API, with a solved challenge attached
 export async function createGroup(data: { name: string; zoneId: string }): Promise<Group> {
-  const response = await fetchApi<{ group: Group }>('/api/groups', {
+  const token = await getChallengeProvider().getToken('group')
+  const response = await fetch(`${GATEWAY_PATH}/groups`, {
     method: 'POST',
     body: JSON.stringify(data),
+    headers: { 'Content-Type': 'application/json', [CHALLENGE_HEADER]: token },
   })
-  return response.group
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}))
+    if (error.error) throw new Error(error.error)
+    throw new LocalizedError('errors.requestFailed', { status: response.status })
+  }
+
+  const result: { group: Group } = await response.json()
+  return result.group
+}
+
+export interface SubmitOptions extends UploadOptions {
+  // Sent as the Idempotency-Key header so a repeated request creates nothing new
+  idempotencyKey?: string
 }
 
 export async function submitTestimony(
   data: TestimonyInput,
-  file?: File
+  file?: File,
+  attachments: File[] = [],
+  options: SubmitOptions = {}
 ): Promise<{ success: boolean; testimony: { id: string } }> {
-  const formData = new FormData()
-  formData.append('data', JSON.stringify(data))
-  if (file) {
-    formData.append('file', file)
+  const { idempotencyKey, ...uploadOptions } = options
+  // Media and attachments go up first through resumable upload sessions, one
+  // after another; the testimony itself then only references the finished uploads
+  const files = file ? [file, ...attachments] : attachments
+  const total = files.reduce((sum, f) => sum + f.size, 0)
+  const uploadIds: string[] = []
+  let completed = 0
+  for (const f of files) {
+    uploadIds.push(await uploadMedia(f, {
+      ...uploadOptions,
+      onProgress: (uploaded) => uploadOptions.onProgress?.(completed + uploaded, total),
+    }))
+    completed += f.size
   }
 
-  try {
-    const controller = new AbortController()
-    // 5 minute timeout for large file uploads
-    const timeoutId = setTimeout(() => controller.abort(), 5 * 60 * 1000)
+  const uploadId = file ? uploadIds.shift() : undefined
+  const attachmentUploadIds = uploadIds.length > 0 ? uploadIds : undefined
 
-    const response = await fetch(`${API_URL}/api/testimonies`, {
+  const formData = new FormData()
+  formData.append('data', JSON.stringify({ ...data, uploadId, attachmentUploadIds }))
+
+  // Solved after the uploads so a slow upload can't outlive the challenge
+  const token = await getChallengeProvider().getToken('testimony', uploadOptions.signal)
+  const headers: Record<string, string> = { [CHALLENGE_HEADER]: token }
+  if (idempotencyKey) headers['Idempotency-Key'] = idempotencyKey
+
+  const controller = new AbortController()
+  const timeoutId = setTimeout(() => controller.abort(), 60 * 1000)
+  const onAbort = () => controller.abort()
+  uploadOptions.signal?.addEventListener('abort', onAbort, { once: true })
+
+  try {
+    const response = await networkFetch(`${GATEWAY_PATH}/testimonies`, {
       method: 'POST',
       body: formData,
-      credentials: 'include',
+      headers,
       signal: controller.signal,
     })
 
-    clearTimeout(timeoutId)
-
     if (!response.ok) {
-      const errorData = await response.json().catch(() => ({ error: 'Submission failed' }))
+      const errorData = await response.json().catch(() => ({}))
 
       // Format detailed validation errors if available
       if (errorData.details && Array.isArray(errorData.details)) {
@@ -109,24 +178,52 @@ export async function submitTestimony(
           const field = d.path?.join('.') || 'Field'
           return `${field}: ${d.message}`
         }).join('\n')
-        throw new Error(messages || errorData.error || 'Validation failed')
+        if (messages) throw new Error(messages)
       }
 
-      throw new Error(errorData.error || `Submission failed (${response.status})`)
+      if (errorData.error) throw new Error(errorData.error)
+      throw new LocalizedError('errors.requestFailed', { status: response.status })
     }
 
-    return response.json()
+    const result = await response.json()
+    files.forEach((f) => clearUpload(f))
+    return result
   } catch (err) {
     if (err instanceof Error) {
-      if (err.name === 'AbortError') {
-        throw new Error('Upload timed out. Please try a smaller file or check your connection.')
+      // Cancelled by the caller rather than timed out
+      if (err.name === 'AbortError' && !uploadOptions.signal?.aborted) {
+        throw new LocalizedError('errors.submissionTimedOut')
       }
       throw err
     }
-    throw new Error('Submission failed')
+    throw new LocalizedError('errors.pleaseTryAgain')
+  } finally {
+    clearTimeout(timeoutId)
+    uploadOptions.signal?.removeEventListener('abort', onAbort)
   }
 }
 
+// Whether the same email or phone has sent similar text or the same media
+// before. Goes through the gateway, and only a yes or no comes back, so it
+// can't be used to look up someone else's testimonies.
+export async function checkDuplicateTestimony(input: DuplicateCheckInput): Promise<boolean> {
+  const token = await getChallengeProvider().getToken('duplicate')
+  const response = await networkFetch(`${GATEWAY_PATH}/duplicate-check`, {
+    method: 'POST',
+    body: JSON.stringify(input),
+    headers: { 'Content-Type': 'application/json', [CHALLENGE_HEADER]: token },
+  })
+  if (!response.ok) throw new Error('Duplicate check failed')
+  const result: { possibleDuplicate: boolean } = await response.json()
+  return result.possibleDuplicate
+}
+
+// True when a request failed because the server couldn't be reached at all,
+// as opposed to the server rejecting it
+export function isNetworkError(err: unknown): boolean {
+  return err instanceof NetworkError
+}
+
 // Auth endpoints
 export async function login(
   email: string,
@@ -146,10 +243,80 @@ export async function getCurrentAdmin(): Promise<{ admin: { id: string; email: s
   return fetchApi('/api/auth/me')
 }
 
-// Admin endpoints
-export async function getTestimonies(params: {
+// Public wall endpoints
+export interface PublicTestimonyFilters {
   page?: number
   limit?: number
+  testimonyCategoryId?: string
+  countryId?: string
+  networkId?: string
+  externalCategoryId?: string
+  zoneId?: string
+}
+
+export function buildPublicTestimoniesQuery(params: PublicTestimonyFilters): URLSearchParams {
+  const searchParams = new URLSearchParams()
+  if (params.page) searchParams.set('page', params.page.toString())
+  if (params.limit) searchParams.set('limit', params.limit.toString())
+  if (params.testimonyCategoryId) searchParams.set('testimonyCategoryId', params.testimonyCategoryId)
+  if (params.countryId) searchParams.set('countryId', params.countryId)
+  if (params.networkId) searchParams.set('networkId', params.networkId)
+  if (params.externalCategoryId) searchParams.set('externalCategoryId', params.externalCategoryId)
+  if (params.zoneId) searchParams.set('zoneId', params.zoneId)
+  return searchParams
+}
+
+// Public wall of approved testimonies
+export async function getPublicTestimonies(
+  params: PublicTestimonyFilters
+): Promise<PaginatedResponse<PublicTestimony>> {
+  const searchParams = buildPublicTestimoniesQuery(params)
+  const data = await fetchApi<PaginatedResponse<PublicTestimony>>(`/api/public/testimonies?${searchParams}`)
+  return { ...data, testimonies: data.testimonies.filter(isPublishable).map(toPublicTestimony) }
+}
+
+type PublicTestimonyResponse = PublicTestimony & { publicationConsent?: PublicationConsent | null }
+
+// The API already leaves internal-only testimonies out of public lists; this
+// keeps one from showing if it ever slips through
+export function isPublishable(t: PublicTestimonyResponse): boolean {
+  return t.publicationConsent !== 'INTERNAL'
+}
+
+// Keeps only the public fields, so nothing else the server sends ends up in
+// page state, and drops the name of anyone who asked to stay anonymous
+export function toPublicTestimony(t: PublicTestimonyResponse): PublicTestimony {
+  return {
+    id: t.id,
+    name: t.publicationConsent === 'ANONYMOUS' ? null : t.name,
+    testimonyCategory: t.testimonyCategory,
+    network: t.network,
+    country: t.country,
+    contentType: t.contentType,
+    textContent: t.textContent,
+    mediaUrl: t.mediaUrl,
+    mediaMimeType: t.mediaMimeType,
+    viewCount: t.viewCount,
+    createdAt: t.createdAt,
+  }
+}
+
+// Counted once per browser session by the permalink page
+export async function recordTestimonyView(id: string): Promise<void> {
+  await fetchApi<{ success: boolean }>(`/api/public/testimonies/${encodeURIComponent(id)}/view`, {
+    method: 'POST',
+  })
+}
+
+// Backend returns media as a relative path like /api/media/...
+export function getMediaUrl(url: string | null | undefined): string | null {
+  if (!url) return null
+  if (url.startsWith('http://') || url.startsWith('https://')) return url
+  return `${API_URL}${url}`
+}
+
+// Admin endpoints
+export interface TestimonyFilters {
   status?: string
   categoryType?: string
   contentType?: string
@@ -157,7 +324,12 @@ export async function getTestimonies(params: {
   countryId?: string
   zoneId?: string
   search?: string
-}): Promise<PaginatedResponse<Testimony>> {
+}
+
+export async function getTestimonies(params: TestimonyFilters & {
+  page?: number
+  limit?: number
+}, signal?: AbortSignal): Promise<PaginatedResponse<Testimony>> {
   const searchParams = new URLSearchParams()
   if (params.page) searchParams.set('page', params.page.toString())
   if (params.limit) searchParams.set('limit', params.limit.toString())
@@ -169,7 +341,37 @@ export async function getTestimonies(params: {
   if (params.zoneId) searchParams.set('zoneId', params.zoneId)
   if (params.search) searchParams.set('search', params.search)
 
-  return fetchApi<PaginatedResponse<Testimony>>(`/api/testimonies?${searchParams}`)
+  return fetchApi<PaginatedResponse<Testimony>>(`/api/testimonies?${searchParams}`, { signal })
+}
+
+// Every testimony matching the filters, fetched a page at a time. Each page is
+// handed to onPage as it arrives, so callers needn't hold them all at once.
+export async function forEachTestimonyPage(
+  filters: TestimonyFilters,
+  onPage: (testimonies: Testimony[], loaded: number, total: number) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  let loaded = 0
+  for (let page = 1; ; page++) {
+    signal?.throwIfAborted()
+    const result = await getTestimonies({ ...filters, page, limit: 100 }, signal)
+    loaded += result.testimonies.length
+    onPage(result.testimonies, loaded, result.pagination.total)
+    if (page >= result.pagination.totalPages || result.testimonies.length === 0) return
+  }
+}
+
+export async function getAllTestimonies(
+  filters: TestimonyFilters,
+  onProgress?: (loaded: number, total: number) => void,
+  signal?: AbortSignal
+): Promise<Testimony[]> {
+  const testimonies: Testimony[] = []
+  await forEachTestimonyPage(filters, (page, loaded, total) => {
+    testimonies.push(...page)
+    onProgress?.(loaded, total)
+  }, signal)
+  return testimonies
 }
 
 export async function getTestimony(id: string): Promise<{ testimony: Testimony }> {
@@ -178,11 +380,12 @@ export async function getTestimony(id: string): Promise<{ testimony: Testimony }
 
 export async function updateTestimonyStatus(
   id: string,
-  status: 'APPROVED' | 'REJECTED'
+  status: 'APPROVED' | 'REJECTED',
+  rejection?: RejectionInput
 ): Promise<{ testimony: Testimony }> {
   return fetchApi<{ testimony: Testimony }>(`/api/testimonies/${id}`, {
     method: 'PATCH',
-    body: JSON.stringify({ status }),
+    body: JSON.stringify({ status, ...rejection }),
   })
 }
 
@@ -190,6 +393,46 @@ export async function deleteTestimony(id: string): Promise<void> {
   await fetchApi(`/api/testimonies/${id}`, { method: 'DELETE' })
 }
 
+export async function addTestimonyNote(id: string, body: string): Promise<TestimonyNote> {
+  const data = await fetchApi<{ note: TestimonyNote }>(`/api/testimonies/${id}/notes`, {
+    method: 'POST',
+    body: JSON.stringify({ body }),
+  })
+  return data.note
+}
+
+// Bulk moderation: up to BULK_BATCH_SIZE ids per request, with a result for
+// each so one bad row doesn't fail the rest (see lib/bulk.ts)
+export const BULK_BATCH_SIZE = 100
+
+export async function bulkUpdateTestimonyStatus(
+  ids: string[],
+  status: 'APPROVED' | 'REJECTED',
+  rejection?: RejectionInput
+): Promise<BulkResult[]> {
+  const data = await fetchApi<{ results: BulkResult[] }>('/api/testimonies/bulk/status', {
+    method: 'PATCH',
+    body: JSON.stringify({ ids, status, ...rejection }),
+  })
+  return data.results
+}
+
+export async function bulkUpdateTestimonyCategory(ids: string[], testimonyCategoryId: string): Promise<BulkResult[]> {
+  const data = await fetchApi<{ results: BulkResult[] }>('/api/testimonies/bulk/category', {
+    method: 'PATCH',
+    body: JSON.stringify({ ids, testimonyCategoryId }),
+  })
+  return data.results
+}
+
+export async function bulkDeleteTestimonies(ids: string[]): Promise<BulkResult[]> {
+  const data = await fetchApi<{ results: BulkResult[] }>('/api/testimonies/bulk/delete', {
+    method: 'POST',
+    body: JSON.stringify({ ids }),
+  })
+  return data.results
+}
+
 export async function getStats(): Promise<StatsResponse> {
   return fetchApi<StatsResponse>('/api/admin/stats')
 }
@@ -303,6 +546,32 @@ export async function deleteTestimonyCategory(id: string): Promise<void> {
   await fetchApi(`/api/admin/testimony-categories/${id}`, { method: 'DELETE' })
 }
 
+// Admin Rejection Reason endpoints
+export async function getAdminRejectionReasons(): Promise<{ reasons: (RejectionReason & { _count: { testimonies: number } })[] }> {
+  return fetchApi<{ reasons: (RejectionReason & { _count: { testimonies: number } })[] }>('/api/admin/rejection-reasons')
+}
+
+export async function createRejectionReason(label: string): Promise<{ reason: RejectionReason }> {
+  return fetchApi<{ reason: RejectionReason }>('/api/admin/rejection-reasons', {
+    method: 'POST',
+    body: JSON.stringify({ label }),
+  })
+}
+
+export async function updateRejectionReason(
+  id: string,
+  data: { label?: string; isActive?: boolean }
+): Promise<{ reason: RejectionReason }> {
+  return fetchApi<{ reason: RejectionReason }>(`/api/admin/rejection-reasons/${id}`, {
+    method: 'PATCH',
+    body: JSON.stringify(data),
+  })
+}
+
+export async function deleteRejectionReason(id: string): Promise<void> {
+  await fetchApi(`/api/admin/rejection-reasons/${id}`, { method: 'DELETE' })
+}
+
 // Admin Profile endpoints
 export interface AdminProfile {
   id: string
@@ -334,3 +603,42 @@ export async function changeAdminPassword(
     body: JSON.stringify({ currentPassword, newPassword }),
   })
 }
+
+// Admin Audit Log endpoints
+export interface AuditLogFilters {
+  adminId?: string
+  action?: AuditAction
+  targetType?: AuditTargetType
+  targetId?: string
+  // Inclusive calendar days, YYYY-MM-DD
+  from?: string
+  to?: string
+}
+
+export async function getAuditLog(params: AuditLogFilters & {
+  page?: number
+  limit?: number
+}): Promise<{ entries: AuditEntry[]; pagination: PaginatedResponse<AuditEntry>['pagination'] }> {
+  const searchParams = new URLSearchParams()
+  if (params.page) searchParams.set('page', params.page.toString())
+  if (params.limit) searchParams.set('limit', params.limit.toString())
+  if (params.adminId) searchParams.set('adminId', params.adminId)
+  if (params.action) searchParams.set('action', params.action)
+  if (params.targetType) searchParams.set('targetType', params.targetType)
+  if (params.targetId) searchParams.set('targetId', params.targetId)
+  if (params.from) searchParams.set('from', params.from)
+  if (params.to) searchParams.set('to', params.to)
+
+  return fetchApi(`/api/admin/audit?${searchParams}`)
+}
+
+// Admins with at least one entry in the log, for the filter
+export async function getAuditAdmins(): Promise<{ admins: { id: string; name: string; email: string }[] }> {
+  return fetchApi('/api/admin/audit/admins')
+}
+
+// Everything done to one testimony, newest first
+export async function getTestimonyHistory(id: string): Promise<AuditEntry[]> {
+  const { entries } = await getAuditLog({ targetType: 'TESTIMONY', targetId: id, limit: 100 })
+  return entries
+}
@@ -0,0 +1,29 @@
+// Supporting documents a submitter can add alongside their testimony
+export const ATTACHMENT_MIME_TYPES = [
+  'image/jpeg',
+  'image/png',
+  'image/webp',
+  'image/gif',
+  'image/heic',
+  'image/heif',
+  'application/pdf',
+]
+export const ATTACHMENT_ACCEPT = ATTACHMENT_MIME_TYPES.join(',')
+export const MAX_ATTACHMENTS = 10
+
+export function isImageAttachment(mimeType: string): boolean {
+  return mimeType.startsWith('image/')
+}
+
+export function isPdfAttachment(mimeType: string): boolean {
+  return mimeType === 'application/pdf'
+}
+
+export type AttachmentError = 'type' | 'size'
+
+// Returns why a file can't be attached, or null if it's fine
+export function getAttachmentError(file: File, maxBytes: number): AttachmentError | null {
+  if (!ATTACHMENT_MIME_TYPES.includes(file.type)) return 'type'
+  if (file.size > maxBytes) return 'size'
+  return null
+}
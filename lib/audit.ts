@@ -0,0 +1,48 @@
+import type { AuditAction, AuditTargetType } from '@/types'
+
+// The backend records each admin change itself, taking the action from the
+// route and method it handled (and, for moderation, the new status). Nothing
+// the browser sends decides what goes in the log; these labels only display it.
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  'testimony.approve': 'Approved testimony',
+  'testimony.reject': 'Rejected testimony',
+  'testimony.recategorise': 'Changed testimony type',
+  'testimony.delete': 'Deleted testimony',
+  'testimony.note': 'Added note',
+  'network.create': 'Created network',
+  'network.update': 'Updated network',
+  'network.delete': 'Deleted network',
+  'external-category.create': 'Created external category',
+  'external-category.update': 'Updated external category',
+  'external-category.delete': 'Deleted external category',
+  'testimony-category.create': 'Created testimony type',
+  'testimony-category.update': 'Updated testimony type',
+  'testimony-category.delete': 'Deleted testimony type',
+  'rejection-reason.create': 'Created rejection reason',
+  'rejection-reason.update': 'Updated rejection reason',
+  'rejection-reason.delete': 'Deleted rejection reason',
+  'settings.update': 'Updated storage settings',
+  'profile.update': 'Updated profile',
+  'profile.password': 'Changed password',
+}
+
+export const AUDIT_ACTIONS = Object.keys(AUDIT_ACTION_LABELS) as AuditAction[]
+
+export const AUDIT_TARGET_LABELS: Record<AuditTargetType, string> = {
+  TESTIMONY: 'Testimony',
+  NETWORK: 'Network',
+  EXTERNAL_CATEGORY: 'External category',
+  TESTIMONY_CATEGORY: 'Testimony type',
+  REJECTION_REASON: 'Rejection reason',
+  SETTINGS: 'Settings',
+  ADMIN: 'Admin',
+}
+
+// Diff values are whatever the backend stored: strings, numbers, booleans,
+// nulls, or small objects
+export function formatAuditValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—'
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No'
+  if (typeof value === 'object') return JSON.stringify(value)
+  return String(value)
+}
@@ -0,0 +1,47 @@
+import { BULK_BATCH_SIZE } from './api'
+import type { BulkResult } from '@/types'
+
+export interface BulkProgress {
+  done: number
+  total: number
+  failures: BulkResult[]
+}
+
+// Runs a bulk action over ids a batch at a time, reporting after each batch. A
+// batch that fails outright counts as a failure for each of its ids and the
+// rest still run; aborting stops before the next batch.
+export async function runBulkAction(
+  ids: string[],
+  action: (batch: string[]) => Promise<BulkResult[]>,
+  onProgress: (progress: BulkProgress) => void,
+  signal?: AbortSignal
+): Promise<BulkProgress> {
+  let progress: BulkProgress = { done: 0, total: ids.length, failures: [] }
+  onProgress(progress)
+
+  for (let i = 0; i < ids.length && !signal?.aborted; i += BULK_BATCH_SIZE) {
+    const batch = ids.slice(i, i + BULK_BATCH_SIZE)
+    let results: BulkResult[]
+    try {
+      results = await action(batch)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Request failed'
+      results = batch.map((id) => ({ id, success: false, error: message }))
+    }
+
+    // Anything the server left out of its reply wasn't done either
+    const reported = new Set(results.map((result) => result.id))
+    const missing = batch
+      .filter((id) => !reported.has(id))
+      .map((id) => ({ id, success: false, error: 'No result returned' }))
+
+    progress = {
+      ...progress,
+      done: progress.done + batch.length,
+      failures: [...progress.failures, ...results.filter((result) => !result.success), ...missing],
+    }
+    onProgress(progress)
+  }
+
+  return progress
+}
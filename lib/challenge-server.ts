@@ -0,0 +1,148 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto'
+import type { NextRequest } from 'next/server'
+import { CHALLENGE_HEADER, CHALLENGE_PROVIDER, UPLOAD_TOKEN_HEADER, countLeadingZeroBits, type ChallengeAction } from './challenge'
+import { SERVER_API_URL } from './server-api'
+
+const CHALLENGE_TTL = 10 * 60 * 1000
+// Leading zero bits; each one doubles the average work (16 is about a second)
+const DIFFICULTY = Number(process.env.CHALLENGE_DIFFICULTY) || 16
+
+// Without a configured secret, challenges only verify on the process that
+// issued them
+const SECRET = process.env.CHALLENGE_SECRET || randomBytes(32).toString('hex')
+if (!process.env.CHALLENGE_SECRET && process.env.NODE_ENV === 'production') {
+  console.warn('CHALLENGE_SECRET is not set; using a random secret for this process')
+}
+if (!process.env.GATEWAY_SECRET && process.env.NODE_ENV === 'production') {
+  console.warn('GATEWAY_SECRET is not set; the backend cannot tell gateway requests from direct ones')
+}
+
+export interface ChallengeVerifier {
+  verify(token: string, action: ChallengeAction, request: Request): Promise<boolean>
+}
+
+function sign(payload: string): string {
+  return createHmac('sha256', SECRET).update(payload).digest('base64url')
+}
+
+// `${action}.${nonce}.${issuedAt}.${difficulty}.${signature}`
+export function issueChallenge(action: ChallengeAction): { challenge: string; difficulty: number } {
+  const payload = [action, randomBytes(16).toString('base64url'), Date.now(), DIFFICULTY].join('.')
+  return { challenge: `${payload}.${sign(payload)}`, difficulty: DIFFICULTY }
+}
+
+// Nonces already redeemed, with when they expire. Kept per process, so a
+// solved challenge could be replayed once on each instance at most.
+const redeemed = new Map<string, number>()
+
+function redeem(nonce: string, expiresAt: number): boolean {
+  const now = Date.now()
+  redeemed.forEach((expiry, key) => {
+    if (expiry < now) redeemed.delete(key)
+  })
+  if (redeemed.has(nonce)) return false
+  redeemed.set(nonce, expiresAt)
+  return true
+}
+
+const proofOfWork: ChallengeVerifier = {
+  async verify(token, action) {
+    const parts = token.split('.')
+    if (parts.length !== 6) return false
+    const [tokenAction, nonce, issuedAt, difficulty, signature] = parts
+
+    const expected = Buffer.from(sign(parts.slice(0, 4).join('.')))
+    const actual = Buffer.from(signature)
+    if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return false
+
+    const expiresAt = Number(issuedAt) + CHALLENGE_TTL
+    if (tokenAction !== action || Number(difficulty) < DIFFICULTY || expiresAt < Date.now()) return false
+
+    const digest = createHash('sha256').update(token).digest()
+    if (countLeadingZeroBits(digest) < DIFFICULTY) return false
+
+    return redeem(nonce, expiresAt)
+  },
+}
+
+const VERIFIERS: Record<typeof CHALLENGE_PROVIDER, ChallengeVerifier> = {
+  pow: proofOfWork,
+}
+
+// How many proxies of ours sit in front of this server, each appending the
+// address it saw to X-Forwarded-For. Entries to the left of theirs came from
+// the client and could say anything. 0 means none, so no address is known.
+const parsedProxies = parseInt(process.env.TRUSTED_PROXIES ?? '', 10)
+const TRUSTED_PROXIES = Number.isNaN(parsedProxies) ? 1 : Math.max(0, parsedProxies)
+
+// The submitter's address as our side saw it, never as their headers claim
+function getClientIp(request: NextRequest): string | undefined {
+  if (TRUSTED_PROXIES === 0) return undefined
+  const hops = (request.headers.get('x-forwarded-for') || '').split(',').map((hop) => hop.trim()).filter(Boolean)
+  return hops[hops.length - TRUSTED_PROXIES]
+}
+
+// Streams the request on to the backend. GATEWAY_SECRET lets the backend
+// refuse anything that didn't come through here.
+async function forwardToBackend(request: NextRequest, path: string): Promise<Response> {
+  const headers = new Headers()
+  for (const name of ['content-type', 'content-range', 'idempotency-key', 'accept-language']) {
+    const value = request.headers.get(name)
+    if (value) headers.set(name, value)
+  }
+  const clientIp = getClientIp(request)
+  if (clientIp) {
+    headers.set('X-Forwarded-For', clientIp)
+    headers.set('X-Real-IP', clientIp)
+  }
+  if (process.env.GATEWAY_SECRET) headers.set('X-Gateway-Secret', process.env.GATEWAY_SECRET)
+
+  let response: Response
+  try {
+    response = await fetch(`${SERVER_API_URL}${path}`, {
+      method: request.method,
+      headers,
+      body: request.body,
+      cache: 'no-store',
+      // Required by Node's fetch to send a streamed body
+      duplex: 'half',
+    } as RequestInit)
+  } catch (error) {
+    console.error(error)
+    return Response.json({ error: 'Could not reach the server. Please try again.' }, { status: 502 })
+  }
+
+  return new Response(response.body, {
+    status: response.status,
+    headers: { 'Content-Type': response.headers.get('content-type') || 'application/json' },
+  })
+}
+
+function rejectVerification(): Response {
+  return Response.json({ error: 'Verification failed. Please try again.' }, { status: 403 })
+}
+
+// Checks the challenge token before passing the request on
+export async function forwardVerified(request: NextRequest, action: ChallengeAction, path: string): Promise<Response> {
+  const token = request.headers.get(CHALLENGE_HEADER)
+  if (!token || !(await VERIFIERS[CHALLENGE_PROVIDER].verify(token, action, request))) {
+    return rejectVerification()
+  }
+  return forwardToBackend(request, path)
+}
+
+// Upload sessions are opened with a challenge, which would be too slow to
+// solve for every chunk. Instead the gateway signs the new session's id and
+// the chunks and offset checks for it carry that signature.
+export function signUploadSession(uploadId: string): string {
+  return sign(`upload.${uploadId}`)
+}
+
+export async function forwardUploadSession(request: NextRequest, uploadId: string): Promise<Response> {
+  const expected = Buffer.from(signUploadSession(uploadId))
+  const actual = Buffer.from(request.headers.get(UPLOAD_TOKEN_HEADER) || '')
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    return rejectVerification()
+  }
+  return forwardToBackend(request, `/api/uploads/${encodeURIComponent(uploadId)}`)
+}
@@ -0,0 +1,72 @@
+// Bot protection for the anonymous endpoints. The browser gets a token from
+// the configured provider and sends it in CHALLENGE_HEADER to the routes under
+// /api/gateway, which check it (lib/challenge-server.ts) before passing the
+// request on to the backend.
+
+import { LocalizedError, networkFetch } from './errors'
+
+export const CHALLENGE_HEADER = 'X-Challenge'
+export const GATEWAY_PATH = '/api/gateway'
+// Carries the gateway's signature for an upload session (see lib/challenge-server.ts)
+export const UPLOAD_TOKEN_HEADER = 'X-Upload-Token'
+
+const CHALLENGE_ACTIONS = ['testimony', 'group', 'duplicate', 'upload'] as const
+
+export type ChallengeAction = typeof CHALLENGE_ACTIONS[number]
+
+export function isChallengeAction(value: unknown): value is ChallengeAction {
+  return CHALLENGE_ACTIONS.includes(value as ChallengeAction)
+}
+
+export interface ChallengeProvider {
+  getToken(action: ChallengeAction, signal?: AbortSignal): Promise<string>
+}
+
+export function countLeadingZeroBits(bytes: Uint8Array): number {
+  let bits = 0
+  for (let i = 0; i < bytes.length; i++) {
+    if (bytes[i] !== 0) return bits + Math.clz32(bytes[i]) - 24
+    bits += 8
+  }
+  return bits
+}
+
+// Self-hosted proof of work: the server hands out a signed challenge and the
+// browser looks for a counter whose SHA-256 of `${challenge}.${counter}`
+// starts with `difficulty` zero bits. Cheap once, expensive by the thousand.
+async function solveProofOfWork(challenge: string, difficulty: number, signal?: AbortSignal): Promise<string> {
+  const encoder = new TextEncoder()
+  for (let counter = 0; ; counter++) {
+    if (counter % 1000 === 0) signal?.throwIfAborted()
+    const token = `${challenge}.${counter}`
+    const digest = await crypto.subtle.digest('SHA-256', encoder.encode(token))
+    if (countLeadingZeroBits(new Uint8Array(digest)) >= difficulty) return token
+  }
+}
+
+const proofOfWork: ChallengeProvider = {
+  async getToken(action, signal) {
+    const response = await networkFetch(`${GATEWAY_PATH}/challenge?action=${action}`, { cache: 'no-store', signal })
+    if (!response.ok) {
+      throw new LocalizedError('errors.verificationFailed')
+    }
+    const { challenge, difficulty }: { challenge: string; difficulty: number } = await response.json()
+    return solveProofOfWork(challenge, difficulty, signal)
+  },
+}
+
+// Hosted widgets (Turnstile, hCaptcha) slot in here with a matching verifier
+const PROVIDERS = {
+  pow: proofOfWork,
+} satisfies Record<string, ChallengeProvider>
+
+export type ChallengeProviderName = keyof typeof PROVIDERS
+
+export const CHALLENGE_PROVIDER: ChallengeProviderName =
+  process.env.NEXT_PUBLIC_CHALLENGE_PROVIDER && process.env.NEXT_PUBLIC_CHALLENGE_PROVIDER in PROVIDERS
+    ? (process.env.NEXT_PUBLIC_CHALLENGE_PROVIDER as ChallengeProviderName)
+    : 'pow'
+
+export function getChallengeProvider(): ChallengeProvider {
+  return PROVIDERS[CHALLENGE_PROVIDER]
+}
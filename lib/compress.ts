@@ -0,0 +1,154 @@
+import { LocalizedError } from './errors'
+import { pickRecorderMimeType, getRecorderExtension, type MediaKind } from './media'
+
+// Leave headroom for container overhead and encoder bitrate overshoot
+const SIZE_SAFETY_FACTOR = 0.85
+const AUDIO_BITS_PER_SECOND = 96_000
+const MIN_AUDIO_BITS_PER_SECOND = 24_000
+const MIN_VIDEO_BITS_PER_SECOND = 200_000
+const FRAME_RATE = 30
+
+export interface CompressOptions {
+  onProgress?: (percent: number) => void
+  signal?: AbortSignal
+}
+
+type CaptureCanvas = HTMLCanvasElement & { captureStream(frameRate?: number): MediaStream }
+
+export function isCompressionSupported(): boolean {
+  return typeof window !== 'undefined' &&
+    typeof MediaRecorder !== 'undefined' &&
+    typeof AudioContext !== 'undefined' &&
+    'captureStream' in HTMLCanvasElement.prototype
+}
+
+// Lower bitrates get lower resolutions so the picture stays watchable
+function getTargetHeight(videoBitsPerSecond: number): number {
+  if (videoBitsPerSecond >= 2_500_000) return 720
+  if (videoBitsPerSecond >= 1_000_000) return 480
+  if (videoBitsPerSecond >= 500_000) return 360
+  return 240
+}
+
+function loadMedia(kind: MediaKind, url: string): Promise<HTMLMediaElement> {
+  return new Promise((resolve, reject) => {
+    const element = document.createElement(kind === 'VIDEO' ? 'video' : 'audio')
+    element.preload = 'auto'
+    if (element instanceof HTMLVideoElement) element.playsInline = true
+    element.onloadedmetadata = () => resolve(element)
+    element.onerror = () => reject(new LocalizedError('mediaErrors.unreadable'))
+    element.src = url
+  })
+}
+
+/**
+ * Re-encodes a video or audio file in the browser so it fits under `maxBytes`,
+ * downscaling video to suit the bitrate that allows. The file is played back
+ * and recorded in real time, so this takes about as long as the media lasts.
+ */
+export async function compressMedia(
+  file: File,
+  kind: MediaKind,
+  maxBytes: number,
+  options: CompressOptions = {}
+): Promise<File> {
+  const url = URL.createObjectURL(file)
+  const audioContext = new AudioContext()
+  let animationFrame = 0
+
+  try {
+    const element = await loadMedia(kind, url)
+    const duration = element.duration
+    if (!isFinite(duration) || duration <= 0) {
+      throw new LocalizedError('mediaErrors.noDuration')
+    }
+
+    const totalBitsPerSecond = (maxBytes * 8 * SIZE_SAFETY_FACTOR) / duration
+    const audioBitsPerSecond = kind === 'VIDEO'
+      ? Math.min(AUDIO_BITS_PER_SECOND, totalBitsPerSecond * 0.1)
+      : Math.min(AUDIO_BITS_PER_SECOND * 2, totalBitsPerSecond)
+    const videoBitsPerSecond = totalBitsPerSecond - audioBitsPerSecond
+
+    if (audioBitsPerSecond < MIN_AUDIO_BITS_PER_SECOND ||
+        (kind === 'VIDEO' && videoBitsPerSecond < MIN_VIDEO_BITS_PER_SECOND)) {
+      throw new LocalizedError('mediaErrors.tooLongToCompress')
+    }
+
+    // Route the soundtrack into the recording without playing it out loud
+    const audioDestination = audioContext.createMediaStreamDestination()
+    audioContext.createMediaElementSource(element).connect(audioDestination)
+    const tracks = [...audioDestination.stream.getAudioTracks()]
+
+    if (kind === 'VIDEO') {
+      const video = element as HTMLVideoElement
+      const height = Math.min(video.videoHeight || 720, getTargetHeight(videoBitsPerSecond))
+      const scale = height / (video.videoHeight || height)
+      const canvas = document.createElement('canvas') as CaptureCanvas
+      // Encoders want even dimensions
+      canvas.width = Math.round((video.videoWidth * scale) / 2) * 2 || 640
+      canvas.height = Math.round(height / 2) * 2
+      const context = canvas.getContext('2d')
+      if (!context) throw new LocalizedError('mediaErrors.compressionUnsupported')
+
+      const draw = () => {
+        context.drawImage(video, 0, 0, canvas.width, canvas.height)
+        animationFrame = requestAnimationFrame(draw)
+      }
+      draw()
+      tracks.push(...canvas.captureStream(FRAME_RATE).getVideoTracks())
+    }
+
+    const mimeType = pickRecorderMimeType(kind)
+    const recorder = new MediaRecorder(new MediaStream(tracks), {
+      mimeType,
+      audioBitsPerSecond: Math.round(audioBitsPerSecond),
+      videoBitsPerSecond: kind === 'VIDEO' ? Math.round(videoBitsPerSecond) : undefined,
+    })
+
+    const chunks: Blob[] = []
+    recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) chunks.push(e.data)
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        element.pause()
+        recorder.onstop = null
+        if (recorder.state !== 'inactive') recorder.stop()
+        reject(new DOMException('Compression cancelled', 'AbortError'))
+      }
+      options.signal?.addEventListener('abort', onAbort, { once: true })
+
+      recorder.onstop = () => {
+        options.signal?.removeEventListener('abort', onAbort)
+        resolve()
+      }
+      element.ontimeupdate = () => options.onProgress?.(Math.min(100, (element.currentTime / duration) * 100))
+      element.onended = () => recorder.stop()
+      element.onerror = () => {
+        options.signal?.removeEventListener('abort', onAbort)
+        reject(new LocalizedError('mediaErrors.compressionPlaybackFailed'))
+      }
+
+      recorder.start(1000)
+      audioContext.resume()
+        .then(() => element.play())
+        .catch(reject)
+    })
+
+    const type = recorder.mimeType || mimeType || (kind === 'VIDEO' ? 'video/webm' : 'audio/webm')
+    const baseName = file.name.replace(/\.[^.]+$/, '')
+    const compressed = new File(chunks, `${baseName}-compressed.${getRecorderExtension(kind, type)}`, { type })
+
+    if (compressed.size > maxBytes) {
+      throw new LocalizedError('mediaErrors.stillTooLarge')
+    }
+
+    options.onProgress?.(100)
+    return compressed
+  } finally {
+    cancelAnimationFrame(animationFrame)
+    audioContext.close().catch(() => {})
+    URL.revokeObjectURL(url)
+  }
+}
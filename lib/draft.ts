@@ -0,0 +1,109 @@
+import { idbDelete, idbGet, idbPut, toStoredFile, fromStoredFile, type StoredFile } from './idb'
+
+const DRAFT_KEY = 'abtm:submit-draft'
+const SUBMISSION_KEY = 'abtm:submission-key'
+const DRAFT_FILE_KEY = 'submit-file'
+const DRAFT_ATTACHMENTS_KEY = 'submit-attachments'
+// Drafts older than this are dropped rather than offered back
+const DRAFT_TTL = 30 * 24 * 60 * 60 * 1000
+
+export interface SubmitDraft<T> {
+  values: Partial<T>
+  step: number
+  hasFile: boolean
+  savedAt: number
+}
+
+export function loadDraft<T>(): SubmitDraft<T> | null {
+  try {
+    const raw = localStorage.getItem(DRAFT_KEY)
+    if (!raw) return null
+    const draft = JSON.parse(raw) as SubmitDraft<T>
+    if (Date.now() - draft.savedAt > DRAFT_TTL) {
+      clearDraft()
+      return null
+    }
+    return draft
+  } catch {
+    return null
+  }
+}
+
+export function saveDraft<T>(values: Partial<T>, step: number, hasFile: boolean) {
+  try {
+    const draft: SubmitDraft<T> = { values, step, hasFile, savedAt: Date.now() }
+    localStorage.setItem(DRAFT_KEY, JSON.stringify(draft))
+  } catch {
+    // Storage unavailable (private mode, quota) - drafts are best effort
+  }
+}
+
+export async function saveDraftFile(file: File | null): Promise<void> {
+  try {
+    if (!file) {
+      await idbDelete('drafts', DRAFT_FILE_KEY)
+      return
+    }
+    // Keep the original metadata so the restored file matches its upload session
+    await idbPut<StoredFile>('drafts', DRAFT_FILE_KEY, toStoredFile(file))
+  } catch {
+    // Large files can exceed the IndexedDB quota; the rest of the draft still saves
+  }
+}
+
+export async function loadDraftFile(): Promise<File | null> {
+  try {
+    const stored = await idbGet<StoredFile>('drafts', DRAFT_FILE_KEY)
+    if (!stored) return null
+    return fromStoredFile(stored)
+  } catch {
+    return null
+  }
+}
+
+export async function saveDraftAttachments(files: File[]): Promise<void> {
+  try {
+    if (files.length === 0) {
+      await idbDelete('drafts', DRAFT_ATTACHMENTS_KEY)
+      return
+    }
+    await idbPut<StoredFile[]>('drafts', DRAFT_ATTACHMENTS_KEY, files.map(toStoredFile))
+  } catch {
+    // Same as the media file - attachments are dropped if they don't fit
+  }
+}
+
+export async function loadDraftAttachments(): Promise<File[]> {
+  try {
+    const stored = await idbGet<StoredFile[]>('drafts', DRAFT_ATTACHMENTS_KEY)
+    return stored ? stored.map(fromStoredFile) : []
+  } catch {
+    return []
+  }
+}
+
+// Idempotency key for the testimony being written. It's kept until the draft
+// is cleared, so a double click or a retry after a reload is recognised by the
+// server as the same submission.
+export function getSubmissionKey(): string {
+  try {
+    const existing = localStorage.getItem(SUBMISSION_KEY)
+    if (existing) return existing
+    const key = crypto.randomUUID()
+    localStorage.setItem(SUBMISSION_KEY, key)
+    return key
+  } catch {
+    return crypto.randomUUID()
+  }
+}
+
+export function clearDraft() {
+  try {
+    localStorage.removeItem(DRAFT_KEY)
+    localStorage.removeItem(SUBMISSION_KEY)
+  } catch {
+    // Nothing to clear
+  }
+  saveDraftFile(null)
+  saveDraftAttachments([])
+}
@@ -0,0 +1,68 @@
+// Options for the partner-site widget, read from the /embed query string.
+// public/widget.js builds the same query from data- attributes.
+
+export type EmbedTheme = 'light' | 'dark'
+
+export interface EmbedOptions {
+  networkId?: string
+  externalCategoryId?: string
+  zoneId?: string
+  theme: EmbedTheme
+  // Hex colour without the leading #
+  accent: string
+  // Seconds each testimony stays up; 0 turns rotation off
+  interval: number
+  limit: number
+}
+
+// Must match public/widget.js
+export const EMBED_RESIZE_MESSAGE = 'abtm:embed-resize'
+
+export const DEFAULT_EMBED_OPTIONS: EmbedOptions = {
+  theme: 'light',
+  accent: '1a1a2e',
+  interval: 8,
+  limit: 10,
+}
+
+const MAX_EMBED_LIMIT = 30
+
+type SearchParams = Record<string, string | string[] | undefined>
+
+function first(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value[0] : value
+}
+
+function clampInt(value: string | undefined, min: number, max: number, fallback: number): number {
+  const parsed = parseInt(value ?? '', 10)
+  return Number.isNaN(parsed) ? fallback : Math.min(max, Math.max(min, parsed))
+}
+
+export function parseEmbedOptions(searchParams: SearchParams): EmbedOptions {
+  const accent = first(searchParams.accent)?.replace(/^#/, '')
+  return {
+    networkId: first(searchParams.networkId) || undefined,
+    externalCategoryId: first(searchParams.externalCategoryId) || undefined,
+    zoneId: first(searchParams.zoneId) || undefined,
+    theme: first(searchParams.theme) === 'dark' ? 'dark' : 'light',
+    // Only plain hex is accepted since it ends up in inline styles
+    accent: accent && /^([0-9a-f]{3}|[0-9a-f]{6})$/i.test(accent) ? accent : DEFAULT_EMBED_OPTIONS.accent,
+    interval: clampInt(first(searchParams.interval), 0, 60, DEFAULT_EMBED_OPTIONS.interval),
+    limit: clampInt(first(searchParams.limit), 1, MAX_EMBED_LIMIT, DEFAULT_EMBED_OPTIONS.limit),
+  }
+}
+
+// Leaves defaults out so generated snippets stay short
+export function buildEmbedQuery(options: Partial<EmbedOptions>): URLSearchParams {
+  const searchParams = new URLSearchParams()
+  if (options.networkId) searchParams.set('networkId', options.networkId)
+  if (options.externalCategoryId) searchParams.set('externalCategoryId', options.externalCategoryId)
+  if (options.zoneId) searchParams.set('zoneId', options.zoneId)
+  if (options.theme && options.theme !== DEFAULT_EMBED_OPTIONS.theme) searchParams.set('theme', options.theme)
+  if (options.accent && options.accent !== DEFAULT_EMBED_OPTIONS.accent) searchParams.set('accent', options.accent)
+  if (options.interval !== undefined && options.interval !== DEFAULT_EMBED_OPTIONS.interval) {
+    searchParams.set('interval', options.interval.toString())
+  }
+  if (options.limit && options.limit !== DEFAULT_EMBED_OPTIONS.limit) searchParams.set('limit', options.limit.toString())
+  return searchParams
+}
@@ -0,0 +1,40 @@
+import type { MessageKey, TranslationValues } from './i18n'
+
+// An error meant for the submitter. It carries a message key rather than
+// English text so the page can show it in their language.
+export class LocalizedError extends Error {
+  constructor(public key: MessageKey, public values?: TranslationValues) {
+    super(key)
+    this.name = 'LocalizedError'
+  }
+}
+
+// The server couldn't be reached at all, as opposed to it answering with an
+// error. Only thrown where a request itself failed, so a bug elsewhere never
+// passes for being offline.
+export class NetworkError extends LocalizedError {
+  constructor(key: MessageKey = 'errors.network') {
+    super(key)
+    this.name = 'NetworkError'
+  }
+}
+
+// fetch, with its "no response" rejection (a TypeError) reported as a
+// NetworkError. Aborts and timeouts pass through unchanged.
+export async function networkFetch(input: RequestInfo | URL, init?: RequestInit): Promise<Response> {
+  try {
+    return await fetch(input, init)
+  } catch (err) {
+    throw err instanceof TypeError ? new NetworkError() : err
+  }
+}
+
+// Server messages are shown as they are; our own are translated
+export function getErrorMessage(
+  err: unknown,
+  t: (key: MessageKey, values?: TranslationValues) => string,
+  fallback: MessageKey
+): string {
+  if (err instanceof LocalizedError) return t(err.key, err.values)
+  return err instanceof Error && err.message ? err.message : t(fallback)
+}
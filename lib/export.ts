@@ -0,0 +1,127 @@
+import { getMediaUrl } from './api'
+import { formatStoredPhone } from './phone'
+import type { Testimony } from '@/types'
+
+export type ExportFormat = 'csv' | 'xlsx'
+
+type ExportValue = string | number | Date | null
+
+export interface ExportColumn {
+  id: string
+  label: string
+  value: (testimony: Testimony) => ExportValue
+  // Width in characters for the XLSX sheet
+  width?: number
+}
+
+// Media links need to work when opened from the spreadsheet, so relative
+// paths are resolved against this site
+function absoluteMediaUrl(url: string | null): string | null {
+  const resolved = getMediaUrl(url)
+  return resolved && new URL(resolved, window.location.origin).href
+}
+
+export const EXPORT_COLUMNS: ExportColumn[] = [
+  { id: 'submittedAt', label: 'Submitted', value: (t) => new Date(t.createdAt), width: 20 },
+  { id: 'status', label: 'Status', value: (t) => t.status, width: 12 },
+  { id: 'name', label: 'Name', value: (t) => t.name, width: 24 },
+  { id: 'email', label: 'Email', value: (t) => t.email, width: 28 },
+  { id: 'phone', label: 'Phone', value: (t) => formatStoredPhone(t.phone, t.phoneCountryCode), width: 18 },
+  { id: 'kingschat', label: 'KingsChat', value: (t) => t.kingschatUsername, width: 18 },
+  { id: 'country', label: 'Country', value: (t) => t.country?.name ?? null, width: 18 },
+  { id: 'church', label: 'Church', value: (t) => t.church, width: 24 },
+  { id: 'zone', label: 'Zone', value: (t) => t.zone?.name ?? null, width: 20 },
+  { id: 'group', label: 'Group', value: (t) => t.group?.name ?? null, width: 20 },
+  { id: 'categoryType', label: 'Submission Category', value: (t) => t.categoryType, width: 14 },
+  { id: 'network', label: 'Network', value: (t) => t.network?.name ?? t.customNetwork, width: 20 },
+  { id: 'externalCategory', label: 'External Category', value: (t) => t.externalCategory?.name ?? t.customExternal, width: 20 },
+  { id: 'testimonyType', label: 'Testimony Type', value: (t) => t.testimonyCategory?.name ?? null, width: 20 },
+  { id: 'contentType', label: 'Content Type', value: (t) => t.contentType, width: 12 },
+  { id: 'text', label: 'Text', value: (t) => t.textContent, width: 60 },
+  { id: 'mediaUrl', label: 'Media URL', value: (t) => absoluteMediaUrl(t.mediaUrl), width: 40 },
+  { id: 'publication', label: 'Publication Consent', value: (t) => t.publicationConsent, width: 16 },
+  { id: 'contact', label: 'Contact Consent', value: (t) => (t.contactConsent === null ? null : t.contactConsent ? 'Yes' : 'No'), width: 14 },
+  { id: 'rejectionReason', label: 'Rejection Reason', value: (t) => t.rejectionReason?.label ?? null, width: 24 },
+  { id: 'views', label: 'Views', value: (t) => t.viewCount, width: 8 },
+  { id: 'id', label: 'ID', value: (t) => t.id, width: 28 },
+]
+
+// Cells a spreadsheet would run as a formula get a leading quote. Phone
+// numbers like "+234 803..." are left alone.
+function escapeCsv(value: ExportValue): string {
+  if (value === null) return ''
+  let text = value instanceof Date ? value.toISOString() : String(value)
+  if (/^[=@\t\r]/.test(text) || /^[+-](?![\d\s()-]*$)/.test(text)) text = `'${text}`
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+function toCsvRow(values: ExportValue[]): string {
+  return values.map(escapeCsv).join(',')
+}
+
+// Excel slows to a crawl well before its own row limit when the whole sheet
+// is built in the browser; larger exports have to use CSV
+export const XLSX_MAX_ROWS = 20_000
+
+export class ExportLimitError extends Error {
+  constructor() {
+    super(`Excel exports are limited to ${XLSX_MAX_ROWS.toLocaleString()} testimonies. Use CSV or narrow the filters.`)
+    this.name = 'ExportLimitError'
+  }
+}
+
+// Builds the file a page of testimonies at a time, so only the rows are kept
+// rather than every testimony
+export interface ExportWriter {
+  add(testimonies: Testimony[]): void
+  finish(): Promise<Blob>
+}
+
+function createCsvWriter(columns: ExportColumn[]): ExportWriter {
+  // The byte order mark makes Excel read the file as UTF-8
+  const parts: BlobPart[] = ['\uFEFF', toCsvRow(columns.map((column) => column.label))]
+  return {
+    add(testimonies) {
+      const rows = testimonies.map((testimony) => `\r\n${toCsvRow(columns.map((column) => column.value(testimony)))}`)
+      // A Blob per page lets the browser move finished rows out of memory
+      parts.push(new Blob(rows))
+    },
+    async finish() {
+      return new Blob(parts, { type: 'text/csv;charset=utf-8' })
+    },
+  }
+}
+
+function createXlsxWriter(columns: ExportColumn[]): ExportWriter {
+  const rows: ExportValue[][] = []
+  return {
+    add(testimonies) {
+      if (rows.length + testimonies.length > XLSX_MAX_ROWS) throw new ExportLimitError()
+      rows.push(...testimonies.map((testimony) => columns.map((column) => column.value(testimony))))
+    },
+    async finish() {
+      const { default: writeXlsxFile } = await import('write-excel-file/browser')
+      const header = columns.map((column) => ({ value: column.label, fontWeight: 'bold' as const }))
+      return writeXlsxFile([header, ...rows], {
+        sheet: 'Testimonies',
+        columns: columns.map((column) => ({ width: column.width })),
+        dateFormat: 'yyyy-mm-dd hh:mm',
+        stickyRowsCount: 1,
+      }).toBlob()
+    },
+  }
+}
+
+export function createExportWriter(columns: ExportColumn[], format: ExportFormat): ExportWriter {
+  return format === 'csv' ? createCsvWriter(columns) : createXlsxWriter(columns)
+}
+
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  link.click()
+  // Revoked on the next tick, once the download has picked the URL up
+  setTimeout(() => URL.revokeObjectURL(url))
+}
@@ -0,0 +1,43 @@
+export const LOCALES = ['en', 'fr', 'pt', 'es', 'ar'] as const
+export type Locale = typeof LOCALES[number]
+
+export const DEFAULT_LOCALE: Locale = 'en'
+// Set by middleware.ts from Accept-Language and changed by the header switcher
+export const LOCALE_COOKIE = 'abtm-locale'
+
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: 'English',
+  fr: 'Français',
+  pt: 'Português',
+  es: 'Español',
+  ar: 'العربية',
+}
+
+// Locales written right to left; the page is mirrored with dir="rtl"
+const RTL_LOCALES: readonly Locale[] = ['ar']
+
+export function getDirection(locale: Locale): 'ltr' | 'rtl' {
+  return RTL_LOCALES.includes(locale) ? 'rtl' : 'ltr'
+}
+
+export function isLocale(value: string | undefined | null): value is Locale {
+  return !!value && (LOCALES as readonly string[]).includes(value)
+}
+
+// Picks the best supported locale from an Accept-Language header such as
+// "pt-BR,pt;q=0.9,en;q=0.8"
+export function matchLocale(acceptLanguage: string | null | undefined): Locale {
+  if (!acceptLanguage) return DEFAULT_LOCALE
+
+  const ranked = acceptLanguage
+    .split(',')
+    .map((part) => {
+      const [tag, ...params] = part.trim().split(';')
+      const q = params.find((p) => p.trim().startsWith('q='))
+      return { language: tag.toLowerCase().split('-')[0], quality: q ? parseFloat(q.trim().slice(2)) : 1 }
+    })
+    .filter((entry) => entry.language && !Number.isNaN(entry.quality) && entry.quality > 0)
+    .sort((a, b) => b.quality - a.quality)
+
+  return ranked.map((entry) => entry.language).find(isLocale) ?? DEFAULT_LOCALE
+}
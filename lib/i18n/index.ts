@@ -0,0 +1,40 @@
+import en, { type Messages } from './messages/en'
+import fr from './messages/fr'
+import pt from './messages/pt'
+import es from './messages/es'
+import ar from './messages/ar'
+import type { Locale } from './config'
+
+export * from './config'
+export type { Messages }
+
+const CATALOGS: Record<Locale, Messages> = { en, fr, pt, es, ar }
+
+// Dotted paths to every message, e.g. 'steps.review'
+type Leaves<T, Prefix extends string = ''> = {
+  [K in keyof T & string]: T[K] extends string ? `${Prefix}${K}` : Leaves<T[K], `${Prefix}${K}.`>
+}[keyof T & string]
+
+export type MessageKey = Leaves<Messages>
+export type TranslationValues = Record<string, string | number>
+
+export function getMessages(locale: Locale): Messages {
+  return CATALOGS[locale]
+}
+
+function lookup(messages: Messages, key: string): string | undefined {
+  let node: unknown = messages
+  for (const part of key.split('.')) {
+    if (typeof node !== 'object' || node === null) return undefined
+    node = (node as Record<string, unknown>)[part]
+  }
+  return typeof node === 'string' ? node : undefined
+}
+
+// Falls back to English, then to the key itself, so a missing message shows
+// up on screen rather than as a blank
+export function translate(messages: Messages, key: MessageKey | string, values?: TranslationValues): string {
+  const message = lookup(messages, key) ?? lookup(en, key) ?? key
+  if (!values) return message
+  return message.replace(/\{(\w+)\}/g, (match, name: string) => name in values ? String(values[name]) : match)
+}
@@ -0,0 +1,263 @@
+import type { Messages } from './en'
+
+const ar: Messages = {
+  common: {
+    error: 'خطأ',
+    tryAgain: 'حاول مرة أخرى',
+    back: 'رجوع',
+    continue: 'متابعة',
+    next: 'التالي',
+    submit: 'إرسال',
+    cancel: 'إلغاء',
+    retry: 'إعادة المحاولة',
+    optional: 'اختياري',
+    other: 'أخرى',
+    wait: 'انتظر...',
+  },
+  header: {
+    testimonies: 'الشهادات',
+    shareTestimony: 'شارك شهادتك',
+    language: 'اللغة',
+  },
+  hero: {
+    badge: 'شارك قصتك',
+    title: 'مليار شهادة',
+    titleAccent: 'وأكثر',
+    subtitle: 'انضم إلى الملايين الذين يشاركون شهادات عن أمانة الله حول العالم',
+  },
+  steps: {
+    category: 'الفئة',
+    details: 'التفاصيل',
+    personal: 'البيانات الشخصية',
+    testimony: 'الشهادة',
+    review: 'المراجعة',
+  },
+  draft: {
+    title: 'هل تريد المتابعة من حيث توقفت؟',
+    description: 'لديك شهادة غير مكتملة من {date}.',
+    startOver: 'البدء من جديد',
+    continue: 'متابعة',
+  },
+  category: {
+    typeHeading: 'نوع الشهادة *',
+    noTypes: 'لا توجد أنواع متاحة',
+    typePlaceholder: 'عمّ تتحدث شهادتك؟',
+    heading: 'اختر الفئة *',
+    network: 'الشبكة',
+    networkDescription: 'REON، TNI، Youths Aglow، وغيرها',
+    external: 'فئة خارجية',
+    externalDescription: 'فئات أخرى',
+    region: 'المنطقة / المجموعة / الكنيسة',
+  },
+  details: {
+    networkHeading: 'اختر الشبكة',
+    externalHeading: 'اختر الفئة',
+    regionHeading: 'اختر المنطقة والمجموعة والكنيسة',
+    network: 'الشبكة *',
+    noNetworks: 'لا توجد شبكات متاحة',
+    chooseNetwork: 'اختر الشبكة',
+    networkName: 'اسم الشبكة *',
+    networkNamePlaceholder: 'أدخل اسم الشبكة',
+    category: 'الفئة *',
+    noCategories: 'لا توجد فئات متاحة',
+    chooseCategory: 'اختر الفئة',
+    categoryName: 'اسم الفئة *',
+    categoryNamePlaceholder: 'أدخل اسم الفئة',
+    zone: 'المنطقة *',
+    noZones: 'لا توجد مناطق متاحة',
+    selectZone: 'اختر المنطقة',
+    group: 'المجموعة *',
+    loadingGroups: 'جارٍ تحميل المجموعات...',
+    groupsError: 'تعذّر تحميل المجموعات',
+    selectGroup: 'اختر المجموعة',
+    addGroup: '+ إضافة مجموعة جديدة',
+    newGroup: 'اسم المجموعة الجديدة *',
+    newGroupPlaceholder: 'أدخل اسم المجموعة',
+    church: 'الكنيسة *',
+    churchPlaceholder: 'اسم كنيستك',
+  },
+  personal: {
+    heading: 'المعلومات الشخصية',
+    name: 'الاسم الكامل *',
+    namePlaceholder: 'اسمك',
+    email: 'البريد الإلكتروني *',
+    country: 'الدولة *',
+    noCountries: 'لا توجد دول متاحة',
+    selectCountry: 'اختر الدولة',
+    phone: 'الهاتف *',
+    phonePlaceholder: 'رقم الهاتف',
+    kingschat: 'اسم المستخدم في KingsChat',
+  },
+  testimony: {
+    heading: 'شهادتك',
+    text: 'نص',
+    video: 'فيديو',
+    audio: 'صوت',
+    storageFull: 'رفع الفيديو والصوت غير متاح مؤقتاً لأن مساحة التخزين ممتلئة. لا يزال بإمكانك مشاركة شهادتك كنص.',
+    textPlaceholder: 'شارك شهادتك...',
+    uploadFile: 'رفع ملف',
+    recordVideo: 'تسجيل فيديو',
+    recordAudio: 'تسجيل صوت',
+    checkingFile: 'جارٍ فحص الملف...',
+    tapToChange: 'انقر للتغيير',
+    tapToUploadVideo: 'انقر لرفع فيديو',
+    tapToUploadAudio: 'انقر لرفع ملف صوتي',
+    maxSize: 'الحد الأقصى {size}',
+    alreadyUploaded: 'تم رفع هذا الملف مسبقاً ولن يُرسل مرة أخرى.',
+    resumeFrom: 'سيُستأنف الرفع السابق لهذا الملف من {percent}%.',
+    interrupted: 'توقف رفع "{file}" عند {percent}%. اختر الملف نفسه للمتابعة من حيث توقف.',
+  },
+  review: {
+    heading: 'المراجعة والإرسال',
+    testimonyType: 'نوع الشهادة',
+    category: 'الفئة',
+    network: 'الشبكة',
+    external: 'خارجية',
+    externalCategory: 'فئة خارجية',
+    region: 'المنطقة/المجموعة/الكنيسة',
+    zone: 'المنطقة',
+    group: 'المجموعة',
+    church: 'الكنيسة',
+    name: 'الاسم',
+    email: 'البريد الإلكتروني',
+    phone: 'الهاتف',
+    contentType: 'نوع المحتوى',
+    testimony: 'الشهادة',
+    file: 'الملف',
+    attachments: 'المرفقات',
+    creatingGroup: 'جارٍ إنشاء المجموعة...',
+    uploading: 'جارٍ الرفع...',
+    submitting: 'جارٍ الإرسال...',
+    duplicateTitle: 'ربما شاركت هذه الشهادة من قبل',
+    duplicateDescription: 'وجدنا شهادة أرسلتها من قبل تبدو مطابقة. إذا كانت هذه شهادة مختلفة، يمكنك إرسالها.',
+  },
+  consent: {
+    heading: 'موافقتك',
+    publication: 'كيف يمكننا مشاركة شهادتك؟',
+    public: 'علناً، مع اسمي',
+    publicDescription: 'على هذا الموقع والمواقع الشريكة، مع الحرف الأول من اسمك وبلدك',
+    anonymous: 'علناً، بدون اسمي',
+    anonymousDescription: 'على هذا الموقع والمواقع الشريكة، بدون اسم أو حرف أول',
+    internal: 'للاستخدام الداخلي فقط',
+    internalDescription: 'يقرؤها فريق الخدمة فقط ولا تُنشر أبداً',
+    contact: 'يمكن لفريق الخدمة التواصل معي بخصوص شهادتي',
+    contactDescription: 'عبر البريد الإلكتروني أو الهاتف أو KingsChat، مثلاً للمتابعة أو للتحقق من التفاصيل',
+    privacy: 'قرأت سياسة الخصوصية وأوافق على استخدام بياناتي لمعالجة شهادتي',
+    privacyLink: 'اقرأ سياسة الخصوصية',
+    required: 'اختر كيف يمكن مشاركة شهادتك ووافق على سياسة الخصوصية لإرسالها.',
+  },
+  errors: {
+    loadFormTitle: 'تعذّر تحميل النموذج',
+    loadData: 'تعذّر تحميل البيانات',
+    loadGroups: 'تعذّر تحميل المجموعات',
+    fileTooLarge: 'الملف كبير جداً',
+    maxSize: 'الحجم الأقصى هو {size}',
+    cannotUseFile: 'لا يمكن استخدام هذا الملف',
+    fileUnreadable: 'تعذّرت قراءة هذا الملف',
+    createGroup: 'تعذّر إنشاء المجموعة',
+    pleaseTryAgain: 'يرجى المحاولة مرة أخرى',
+    uploadCancelled: 'تم إلغاء الرفع',
+    uploadCancelledDescription: 'تم حفظ تقدّمك. أرسل مرة أخرى لمتابعة الرفع.',
+    submissionFailed: 'فشل الإرسال',
+    network: 'تعذّر الوصول إلى الخادم. يرجى التحقق من اتصالك.',
+    uploadInterrupted: 'انقطع الرفع. يرجى التحقق من اتصالك ثم الإرسال مرة أخرى للمتابعة.',
+    submissionTimedOut: 'استغرق الإرسال وقتًا طويلًا. يرجى التحقق من اتصالك والمحاولة مرة أخرى.',
+    requestFailed: 'تعذّر على الخادم إكمال هذا الطلب ({status}). يرجى المحاولة مرة أخرى.',
+    verificationFailed: 'تعذّر التحقق من هذا المتصفح. يرجى المحاولة مرة أخرى.',
+  },
+  mediaErrors: {
+    tooSlow: 'استغرقت قراءة هذا الملف وقتًا طويلًا. قد يكون تالفًا.',
+    damaged: 'يبدو أن هذا الملف تالف أو بتنسيق لا يستطيع جهازك تشغيله.',
+    noDuration: 'تعذّرت قراءة مدة هذا الملف.',
+    unsupportedVideo: 'تنسيق الفيديو هذا غير مدعوم. يرجى استخدام {formats} أو ما يشبهها.',
+    unsupportedAudio: 'تنسيق الصوت هذا غير مدعوم. يرجى استخدام {formats} أو ما يشبهها.',
+    tooShort: 'هذا التسجيل قصير جدًا. يجب ألا تقل مدته عن {seconds} ثانية.',
+    tooLong: 'هذا التسجيل طويل جدًا. الحد الأقصى للمدة هو {duration}.',
+    noPicture: 'لا يحتوي هذا الملف على صورة فيديو. لمشاركة الصوت فقط، اختر صوت بدلًا من ذلك.',
+    empty: 'هذا الملف فارغ.',
+    unreadable: 'تعذّر على متصفحك قراءة هذا الملف.',
+    tooLongToCompress: 'هذا الملف طويل جدًا بحيث لا يمكن ضغطه إلى ما دون الحد الأقصى للحجم.',
+    compressionUnsupported: 'ضغط الفيديو غير مدعوم على هذا الجهاز.',
+    compressionPlaybackFailed: 'فشل التشغيل أثناء الضغط.',
+    stillTooLarge: 'لا يزال الملف المضغوط كبيرًا جدًا. يرجى اختيار ملف أقصر.',
+  },
+  validation: {
+    testimonyTypeRequired: 'نوع الشهادة مطلوب',
+    nameMin: 'يجب أن يتكون الاسم من حرفين على الأقل',
+    emailInvalid: 'عنوان بريد إلكتروني غير صالح',
+    countryRequired: 'الدولة مطلوبة',
+    countryCodeRequired: 'رمز الدولة مطلوب',
+    phoneInvalid: 'رقم هاتف غير صالح',
+  },
+  success: {
+    title: 'شكراً لك!',
+    description: 'تم إرسال شهادتك بنجاح وهي الآن قيد المراجعة.',
+    submitAnother: 'إرسال شهادة أخرى',
+    queuedTitle: 'تم الحفظ - ستُرسل عند الاتصال',
+    queuedDescription: 'يبدو أنك غير متصل بالإنترنت. شهادتك محفوظة على هذا الجهاز وستُرسل تلقائياً فور عودة الاتصال.',
+    sentDescription: 'عاد الاتصال وتم إرسال شهادتك. وهي الآن قيد المراجعة.',
+    failedTitle: 'فشل الإرسال',
+    failedDescription: '{error} يرجى إرسالها مرة أخرى.',
+    failedFallback: 'تعذّر إرسال شهادتك المحفوظة.',
+  },
+  offline: {
+    title: 'أنت غير متصل',
+    description: 'هذه الصفحة غير متاحة دون اتصال. لا يزال بإمكانك مشاركة شهادتك - ستُرسل تلقائياً عند عودة الاتصال.',
+  },
+  upload: {
+    progress: 'جارٍ الرفع {percent}%',
+    transferred: '{uploaded} من {total}',
+    speed: '{speed}/ث · متبقٍ {eta}',
+    calculating: 'جارٍ الحساب...',
+  },
+  attachments: {
+    title: 'مستندات داعمة',
+    optional: '(اختياري)',
+    hint: 'صور أو ملفات PDF مثل التقارير الطبية. حتى {count} ملفات.',
+    hintWithSize: 'صور أو ملفات PDF مثل التقارير الطبية. حتى {count} ملفات، بحد أقصى {size} لكل ملف.',
+    add: 'إضافة صور أو مستندات',
+    remove: 'إزالة {file}',
+    cannotAttach: 'لا يمكن إرفاق الملف',
+    unsupported: '{file} ليس نوع ملف مدعوماً. يرجى استخدام الصور (JPEG، PNG، WebP، HEIC) أو مستندات PDF.',
+    tooLarge: '{file} كبير جداً. الحجم الأقصى هو {size}',
+    tooMany: 'عدد المرفقات كبير جداً',
+    tooManyDescription: 'يمكنك إرفاق ما يصل إلى {count} ملفات',
+  },
+  recorder: {
+    allowCamera: 'يرجى السماح بالوصول إلى الكاميرا والميكروفون للتسجيل.',
+    allowMicrophone: 'يرجى السماح بالوصول إلى الميكروفون للتسجيل.',
+    cannotStart: 'تعذّر بدء التسجيل على هذا الجهاز.',
+    paused: 'متوقف مؤقتاً',
+    recording: 'جارٍ التسجيل',
+    maxLength: 'يمكن أن تصل مدة التسجيل إلى {duration}',
+    tooShort: 'يجب ألا تقل مدة التسجيل عن {seconds} ثانية. يرجى التسجيل مرة أخرى.',
+    start: 'بدء التسجيل',
+    pause: 'إيقاف مؤقت',
+    resume: 'استئناف',
+    stop: 'إيقاف',
+    reRecord: 'إعادة التسجيل',
+    useRecording: 'استخدام التسجيل',
+  },
+  compressor: {
+    overLimitVideo: 'حجم {file} هو {size}، وهو أكبر من الحد المسموح {limit}. يمكنك ضغطه على هذا الجهاز - يستغرق ذلك تقريباً مدة تشغيل الفيديو، لذا أبقِ هذه الصفحة مفتوحة.',
+    overLimitAudio: 'حجم {file} هو {size}، وهو أكبر من الحد المسموح {limit}. يمكنك ضغطه على هذا الجهاز - يستغرق ذلك تقريباً مدة تشغيل التسجيل، لذا أبقِ هذه الصفحة مفتوحة.',
+    compressing: 'جارٍ الضغط... {percent}%',
+    failed: 'فشل الضغط',
+    chooseAnother: 'اختر ملفاً آخر',
+    compress: 'ضغط',
+  },
+  privacy: {
+    title: 'سياسة الخصوصية',
+    intro: 'نوضح هنا ما نفعله بالبيانات التي تقدمها لنا عند مشاركة شهادة.',
+    collectTitle: 'ما نجمعه',
+    collect: 'اسمك وبريدك الإلكتروني ورقم هاتفك وبلدك، وكنيستك ومجموعتك واسم مستخدمك على KingsChat إذا قدمتها، بالإضافة إلى شهادتك وأي ملفات ترفقها.',
+    useTitle: 'كيف نستخدمها',
+    use: 'لمراجعة شهادتك واحتسابها ضمن هدف المليار شهادة، وللتواصل معك بشأنها فقط إذا سمحت بذلك.',
+    shareTitle: 'ما يُنشر',
+    share: 'فقط ما توافق عليه. تعرض الشهادات العلنية الحرف الأول من اسمك وبلدك، ولا تعرض الشهادات المجهولة أياً منهما، ولا تُنشر الشهادات الداخلية أبداً. لا يُعرض بريدك الإلكتروني ورقم هاتفك علناً أبداً.',
+    rightsTitle: 'خياراتك',
+    rights: 'يمكنك أن تطلب من فريق الخدمة في أي وقت تغيير طريقة مشاركة شهادتك، أو التوقف عن التواصل معك، أو حذف شهادتك وبياناتك.',
+  },
+}
+
+export default ar
@@ -0,0 +1,263 @@
+const en = {
+  common: {
+    error: 'Error',
+    tryAgain: 'Try Again',
+    back: 'Back',
+    continue: 'Continue',
+    next: 'Next',
+    submit: 'Submit',
+    cancel: 'Cancel',
+    retry: 'Retry',
+    optional: 'Optional',
+    other: 'Other',
+    wait: 'Wait...',
+  },
+  header: {
+    testimonies: 'Testimonies',
+    shareTestimony: 'Share Testimony',
+    language: 'Language',
+  },
+  hero: {
+    badge: 'Share Your Story',
+    title: 'A Billion Testimonies',
+    titleAccent: '& More',
+    subtitle: 'Join millions sharing testimonies of God\'s faithfulness across the world',
+  },
+  steps: {
+    category: 'Category',
+    details: 'Details',
+    personal: 'Personal Info',
+    testimony: 'Testimony',
+    review: 'Review',
+  },
+  draft: {
+    title: 'Continue where you left off?',
+    description: 'You have an unfinished testimony from {date}.',
+    startOver: 'Start over',
+    continue: 'Continue',
+  },
+  category: {
+    typeHeading: 'Testimony Type *',
+    noTypes: 'No types available',
+    typePlaceholder: 'What is your testimony about?',
+    heading: 'Select Category *',
+    network: 'Network',
+    networkDescription: 'REON, TNI, Youths Aglow, etc.',
+    external: 'External Category',
+    externalDescription: 'Other categories',
+    region: 'Zone / Group / Church',
+  },
+  details: {
+    networkHeading: 'Select Network',
+    externalHeading: 'Select Category',
+    regionHeading: 'Select Zone, Group & Church',
+    network: 'Network *',
+    noNetworks: 'No networks available',
+    chooseNetwork: 'Choose network',
+    networkName: 'Network Name *',
+    networkNamePlaceholder: 'Enter network name',
+    category: 'Category *',
+    noCategories: 'No categories available',
+    chooseCategory: 'Choose category',
+    categoryName: 'Category Name *',
+    categoryNamePlaceholder: 'Enter category name',
+    zone: 'Zone *',
+    noZones: 'No zones available',
+    selectZone: 'Select zone',
+    group: 'Group *',
+    loadingGroups: 'Loading groups...',
+    groupsError: 'Error loading groups',
+    selectGroup: 'Select group',
+    addGroup: '+ Add new group',
+    newGroup: 'New Group Name *',
+    newGroupPlaceholder: 'Enter group name',
+    church: 'Church *',
+    churchPlaceholder: 'Your church name',
+  },
+  personal: {
+    heading: 'Personal Information',
+    name: 'Full Name *',
+    namePlaceholder: 'Your name',
+    email: 'Email *',
+    country: 'Country *',
+    noCountries: 'No countries available',
+    selectCountry: 'Select country',
+    phone: 'Phone *',
+    phonePlaceholder: 'Phone number',
+    kingschat: 'KingsChat Username',
+  },
+  testimony: {
+    heading: 'Your Testimony',
+    text: 'Text',
+    video: 'Video',
+    audio: 'Audio',
+    storageFull: 'Video and audio uploads are temporarily unavailable because our media storage is full. You can still share your testimony as text.',
+    textPlaceholder: 'Share your testimony...',
+    uploadFile: 'Upload a file',
+    recordVideo: 'Record video',
+    recordAudio: 'Record audio',
+    checkingFile: 'Checking file...',
+    tapToChange: 'Tap to change',
+    tapToUploadVideo: 'Tap to upload video',
+    tapToUploadAudio: 'Tap to upload audio',
+    maxSize: 'Max {size}',
+    alreadyUploaded: 'This file was already uploaded and will not be sent again.',
+    resumeFrom: 'Your earlier upload of this file will resume from {percent}%.',
+    interrupted: 'Your upload of "{file}" was interrupted at {percent}%. Select the same file to continue where it stopped.',
+  },
+  review: {
+    heading: 'Review & Submit',
+    testimonyType: 'Testimony Type',
+    category: 'Category',
+    network: 'Network',
+    external: 'External',
+    externalCategory: 'External Category',
+    region: 'Zone/Group/Church',
+    zone: 'Zone',
+    group: 'Group',
+    church: 'Church',
+    name: 'Name',
+    email: 'Email',
+    phone: 'Phone',
+    contentType: 'Content Type',
+    testimony: 'Testimony',
+    file: 'File',
+    attachments: 'Attachments',
+    creatingGroup: 'Creating group...',
+    uploading: 'Uploading...',
+    submitting: 'Submitting...',
+    duplicateTitle: 'You may have shared this already',
+    duplicateDescription: 'We found a testimony you sent before that looks the same. If this is a different testimony, go ahead and submit it.',
+  },
+  consent: {
+    heading: 'Your consent',
+    publication: 'How may we share your testimony?',
+    public: 'Publicly, with my name',
+    publicDescription: 'On this website and partner sites, showing the first letter of your name and your country',
+    anonymous: 'Publicly, without my name',
+    anonymousDescription: 'On this website and partner sites, with no name or initial',
+    internal: 'Internal only',
+    internalDescription: 'Read by the ministry team only and never published',
+    contact: 'The ministry team may contact me about my testimony',
+    contactDescription: 'By email, phone or KingsChat, for example to follow up or to check details',
+    privacy: 'I have read the privacy policy and agree to my details being used to process my testimony',
+    privacyLink: 'Read the privacy policy',
+    required: 'Choose how your testimony may be shared and accept the privacy policy to submit.',
+  },
+  errors: {
+    loadFormTitle: 'Failed to load form',
+    loadData: 'Failed to load data',
+    loadGroups: 'Failed to load groups',
+    fileTooLarge: 'File too large',
+    maxSize: 'Maximum size is {size}',
+    cannotUseFile: 'Cannot use this file',
+    fileUnreadable: 'This file could not be read',
+    createGroup: 'Failed to create group',
+    pleaseTryAgain: 'Please try again',
+    uploadCancelled: 'Upload cancelled',
+    uploadCancelledDescription: 'Your progress has been saved. Submit again to continue the upload.',
+    submissionFailed: 'Submission failed',
+    network: 'Could not reach the server. Please check your connection.',
+    uploadInterrupted: 'Upload interrupted. Please check your connection and submit again to resume.',
+    submissionTimedOut: 'The submission took too long. Please check your connection and try again.',
+    requestFailed: 'The server could not complete this request ({status}). Please try again.',
+    verificationFailed: 'Could not verify this browser. Please try again.',
+  },
+  mediaErrors: {
+    tooSlow: 'This file took too long to read. It may be damaged.',
+    damaged: 'This file appears to be damaged or uses a format your device cannot play.',
+    noDuration: 'Could not read the length of this file.',
+    unsupportedVideo: 'This video format is not supported. Please use {formats} or similar.',
+    unsupportedAudio: 'This audio format is not supported. Please use {formats} or similar.',
+    tooShort: 'This recording is too short. It must be at least {seconds} seconds long.',
+    tooLong: 'This recording is too long. The maximum length is {duration}.',
+    noPicture: 'This file has no video picture. To share audio only, choose Audio instead.',
+    empty: 'This file is empty.',
+    unreadable: 'This file could not be read by your browser.',
+    tooLongToCompress: 'This file is too long to compress under the size limit.',
+    compressionUnsupported: 'Video compression is not supported on this device.',
+    compressionPlaybackFailed: 'Playback failed while compressing.',
+    stillTooLarge: 'The compressed file is still too large. Please choose a shorter file.',
+  },
+  validation: {
+    testimonyTypeRequired: 'Testimony type is required',
+    nameMin: 'Name must be at least 2 characters',
+    emailInvalid: 'Invalid email address',
+    countryRequired: 'Country is required',
+    countryCodeRequired: 'Country code is required',
+    phoneInvalid: 'Invalid phone number',
+  },
+  success: {
+    title: 'Thank You!',
+    description: 'Your testimony has been submitted successfully and is now pending review.',
+    submitAnother: 'Submit Another Testimony',
+    queuedTitle: 'Saved - will send when online',
+    queuedDescription: 'You appear to be offline. Your testimony is saved on this device and will be submitted automatically as soon as you have a connection again.',
+    sentDescription: 'You\'re back online and your testimony has been submitted. It is now pending review.',
+    failedTitle: 'Submission failed',
+    failedDescription: '{error} Please submit it again.',
+    failedFallback: 'Your saved testimony could not be submitted.',
+  },
+  offline: {
+    title: 'You\'re offline',
+    description: 'This page isn\'t available without a connection. You can still share your testimony - it will be sent automatically once you\'re back online.',
+  },
+  upload: {
+    progress: 'Uploading {percent}%',
+    transferred: '{uploaded} of {total}',
+    speed: '{speed}/s · {eta} left',
+    calculating: 'Calculating...',
+  },
+  attachments: {
+    title: 'Supporting documents',
+    optional: '(optional)',
+    hint: 'Photos or PDFs such as medical reports. Up to {count} files.',
+    hintWithSize: 'Photos or PDFs such as medical reports. Up to {count} files, {size} each.',
+    add: 'Add photos or documents',
+    remove: 'Remove {file}',
+    cannotAttach: 'Cannot attach file',
+    unsupported: '{file} is not a supported file type. Please use photos (JPEG, PNG, WebP, HEIC) or PDF documents.',
+    tooLarge: '{file} is too large. Maximum size is {size}',
+    tooMany: 'Too many attachments',
+    tooManyDescription: 'You can attach up to {count} files',
+  },
+  recorder: {
+    allowCamera: 'Please allow access to your camera and microphone to record.',
+    allowMicrophone: 'Please allow access to your microphone to record.',
+    cannotStart: 'Could not start recording on this device.',
+    paused: 'Paused',
+    recording: 'Recording',
+    maxLength: 'Recordings can be up to {duration} long',
+    tooShort: 'Recordings must be at least {seconds} seconds long. Please record again.',
+    start: 'Start recording',
+    pause: 'Pause',
+    resume: 'Resume',
+    stop: 'Stop',
+    reRecord: 'Re-record',
+    useRecording: 'Use recording',
+  },
+  compressor: {
+    overLimitVideo: '{file} is {size}, over the {limit} limit. You can compress it on this device - it takes about as long as the video plays, so keep this page open.',
+    overLimitAudio: '{file} is {size}, over the {limit} limit. You can compress it on this device - it takes about as long as the recording plays, so keep this page open.',
+    compressing: 'Compressing... {percent}%',
+    failed: 'Compression failed',
+    chooseAnother: 'Choose another file',
+    compress: 'Compress',
+  },
+  privacy: {
+    title: 'Privacy Policy',
+    intro: 'This explains what we do with the details you give us when you share a testimony.',
+    collectTitle: 'What we collect',
+    collect: 'Your name, email address, phone number and country, and if you give them your church, group and KingsChat username, along with your testimony and any files you attach.',
+    useTitle: 'How we use it',
+    use: 'To review your testimony, to count it towards the goal of a billion testimonies and, only if you allow it, to contact you about it.',
+    shareTitle: 'What is published',
+    share: 'Only what you agree to. Public testimonies show the first letter of your name and your country, anonymous ones show neither, and internal-only testimonies are never published. Your email address and phone number are never shown publicly.',
+    rightsTitle: 'Your choices',
+    rights: 'You can ask the ministry team at any time to change how your testimony is shared, to stop contacting you, or to delete your testimony and details.',
+  },
+}
+
+export type Messages = typeof en
+
+export default en
@@ -0,0 +1,263 @@
+import type { Messages } from './en'
+
+const es: Messages = {
+  common: {
+    error: 'Error',
+    tryAgain: 'Intentar de nuevo',
+    back: 'Atrás',
+    continue: 'Continuar',
+    next: 'Siguiente',
+    submit: 'Enviar',
+    cancel: 'Cancelar',
+    retry: 'Reintentar',
+    optional: 'Opcional',
+    other: 'Otro',
+    wait: 'Espera...',
+  },
+  header: {
+    testimonies: 'Testimonios',
+    shareTestimony: 'Compartir testimonio',
+    language: 'Idioma',
+  },
+  hero: {
+    badge: 'Comparte tu historia',
+    title: 'Mil Millones de Testimonios',
+    titleAccent: 'y Más',
+    subtitle: 'Únete a millones que comparten testimonios de la fidelidad de Dios en todo el mundo',
+  },
+  steps: {
+    category: 'Categoría',
+    details: 'Detalles',
+    personal: 'Datos personales',
+    testimony: 'Testimonio',
+    review: 'Revisión',
+  },
+  draft: {
+    title: '¿Continuar donde lo dejaste?',
+    description: 'Tienes un testimonio sin terminar del {date}.',
+    startOver: 'Empezar de nuevo',
+    continue: 'Continuar',
+  },
+  category: {
+    typeHeading: 'Tipo de testimonio *',
+    noTypes: 'No hay tipos disponibles',
+    typePlaceholder: '¿De qué trata tu testimonio?',
+    heading: 'Selecciona una categoría *',
+    network: 'Red',
+    networkDescription: 'REON, TNI, Youths Aglow, etc.',
+    external: 'Categoría externa',
+    externalDescription: 'Otras categorías',
+    region: 'Zona / Grupo / Iglesia',
+  },
+  details: {
+    networkHeading: 'Selecciona la red',
+    externalHeading: 'Selecciona la categoría',
+    regionHeading: 'Selecciona zona, grupo e iglesia',
+    network: 'Red *',
+    noNetworks: 'No hay redes disponibles',
+    chooseNetwork: 'Elige una red',
+    networkName: 'Nombre de la red *',
+    networkNamePlaceholder: 'Escribe el nombre de la red',
+    category: 'Categoría *',
+    noCategories: 'No hay categorías disponibles',
+    chooseCategory: 'Elige una categoría',
+    categoryName: 'Nombre de la categoría *',
+    categoryNamePlaceholder: 'Escribe el nombre de la categoría',
+    zone: 'Zona *',
+    noZones: 'No hay zonas disponibles',
+    selectZone: 'Selecciona la zona',
+    group: 'Grupo *',
+    loadingGroups: 'Cargando grupos...',
+    groupsError: 'Error al cargar los grupos',
+    selectGroup: 'Selecciona el grupo',
+    addGroup: '+ Añadir un grupo nuevo',
+    newGroup: 'Nombre del nuevo grupo *',
+    newGroupPlaceholder: 'Escribe el nombre del grupo',
+    church: 'Iglesia *',
+    churchPlaceholder: 'El nombre de tu iglesia',
+  },
+  personal: {
+    heading: 'Información personal',
+    name: 'Nombre completo *',
+    namePlaceholder: 'Tu nombre',
+    email: 'Correo electrónico *',
+    country: 'País *',
+    noCountries: 'No hay países disponibles',
+    selectCountry: 'Selecciona el país',
+    phone: 'Teléfono *',
+    phonePlaceholder: 'Número de teléfono',
+    kingschat: 'Usuario de KingsChat',
+  },
+  testimony: {
+    heading: 'Tu testimonio',
+    text: 'Texto',
+    video: 'Vídeo',
+    audio: 'Audio',
+    storageFull: 'La subida de vídeo y audio no está disponible temporalmente porque nuestro almacenamiento está lleno. Todavía puedes compartir tu testimonio por escrito.',
+    textPlaceholder: 'Comparte tu testimonio...',
+    uploadFile: 'Subir un archivo',
+    recordVideo: 'Grabar vídeo',
+    recordAudio: 'Grabar audio',
+    checkingFile: 'Comprobando el archivo...',
+    tapToChange: 'Toca para cambiar',
+    tapToUploadVideo: 'Toca para subir un vídeo',
+    tapToUploadAudio: 'Toca para subir un audio',
+    maxSize: 'Máx. {size}',
+    alreadyUploaded: 'Este archivo ya se subió y no se volverá a enviar.',
+    resumeFrom: 'La subida anterior de este archivo se reanudará desde el {percent} %.',
+    interrupted: 'La subida de «{file}» se interrumpió al {percent} %. Selecciona el mismo archivo para continuar donde se detuvo.',
+  },
+  review: {
+    heading: 'Revisar y enviar',
+    testimonyType: 'Tipo de testimonio',
+    category: 'Categoría',
+    network: 'Red',
+    external: 'Externa',
+    externalCategory: 'Categoría externa',
+    region: 'Zona/Grupo/Iglesia',
+    zone: 'Zona',
+    group: 'Grupo',
+    church: 'Iglesia',
+    name: 'Nombre',
+    email: 'Correo electrónico',
+    phone: 'Teléfono',
+    contentType: 'Formato',
+    testimony: 'Testimonio',
+    file: 'Archivo',
+    attachments: 'Adjuntos',
+    creatingGroup: 'Creando grupo...',
+    uploading: 'Subiendo...',
+    submitting: 'Enviando...',
+    duplicateTitle: 'Es posible que ya lo hayas compartido',
+    duplicateDescription: 'Encontramos un testimonio que ya enviaste y que parece el mismo. Si se trata de otro testimonio, puedes enviarlo.',
+  },
+  consent: {
+    heading: 'Tu consentimiento',
+    publication: '¿Cómo podemos compartir tu testimonio?',
+    public: 'Públicamente, con mi nombre',
+    publicDescription: 'En este sitio y en sitios asociados, con la primera letra de tu nombre y tu país',
+    anonymous: 'Públicamente, sin mi nombre',
+    anonymousDescription: 'En este sitio y en sitios asociados, sin nombre ni inicial',
+    internal: 'Solo uso interno',
+    internalDescription: 'Solo lo lee el equipo del ministerio y nunca se publica',
+    contact: 'El equipo del ministerio puede contactarme sobre mi testimonio',
+    contactDescription: 'Por correo, teléfono o KingsChat, por ejemplo para hacer seguimiento o comprobar detalles',
+    privacy: 'He leído la política de privacidad y acepto que mis datos se usen para tramitar mi testimonio',
+    privacyLink: 'Leer la política de privacidad',
+    required: 'Elige cómo se puede compartir tu testimonio y acepta la política de privacidad para enviarlo.',
+  },
+  errors: {
+    loadFormTitle: 'No se pudo cargar el formulario',
+    loadData: 'No se pudieron cargar los datos',
+    loadGroups: 'No se pudieron cargar los grupos',
+    fileTooLarge: 'Archivo demasiado grande',
+    maxSize: 'El tamaño máximo es {size}',
+    cannotUseFile: 'No se puede usar este archivo',
+    fileUnreadable: 'No se pudo leer este archivo',
+    createGroup: 'No se pudo crear el grupo',
+    pleaseTryAgain: 'Inténtalo de nuevo',
+    uploadCancelled: 'Subida cancelada',
+    uploadCancelledDescription: 'Tu progreso se ha guardado. Envía de nuevo para continuar la subida.',
+    submissionFailed: 'Error en el envío',
+    network: 'No se pudo conectar con el servidor. Revisa tu conexión.',
+    uploadInterrupted: 'Subida interrumpida. Revisa tu conexión y vuelve a enviar para continuar.',
+    submissionTimedOut: 'El envío tardó demasiado. Revisa tu conexión e inténtalo de nuevo.',
+    requestFailed: 'El servidor no pudo completar esta solicitud ({status}). Inténtalo de nuevo.',
+    verificationFailed: 'No se pudo verificar este navegador. Inténtalo de nuevo.',
+  },
+  mediaErrors: {
+    tooSlow: 'Este archivo tardó demasiado en leerse. Puede estar dañado.',
+    damaged: 'Este archivo parece estar dañado o usa un formato que tu dispositivo no puede reproducir.',
+    noDuration: 'No se pudo leer la duración de este archivo.',
+    unsupportedVideo: 'Este formato de vídeo no es compatible. Usa {formats} o similar.',
+    unsupportedAudio: 'Este formato de audio no es compatible. Usa {formats} o similar.',
+    tooShort: 'Esta grabación es demasiado corta. Debe durar al menos {seconds} segundos.',
+    tooLong: 'Esta grabación es demasiado larga. La duración máxima es {duration}.',
+    noPicture: 'Este archivo no tiene imagen de vídeo. Para compartir solo audio, elige Audio.',
+    empty: 'Este archivo está vacío.',
+    unreadable: 'Tu navegador no pudo leer este archivo.',
+    tooLongToCompress: 'Este archivo es demasiado largo para comprimirlo por debajo del límite de tamaño.',
+    compressionUnsupported: 'La compresión de vídeo no es compatible con este dispositivo.',
+    compressionPlaybackFailed: 'La reproducción falló durante la compresión.',
+    stillTooLarge: 'El archivo comprimido sigue siendo demasiado grande. Elige un archivo más corto.',
+  },
+  validation: {
+    testimonyTypeRequired: 'El tipo de testimonio es obligatorio',
+    nameMin: 'El nombre debe tener al menos 2 caracteres',
+    emailInvalid: 'Correo electrónico no válido',
+    countryRequired: 'El país es obligatorio',
+    countryCodeRequired: 'El prefijo del país es obligatorio',
+    phoneInvalid: 'Número de teléfono no válido',
+  },
+  success: {
+    title: '¡Gracias!',
+    description: 'Tu testimonio se ha enviado correctamente y está pendiente de revisión.',
+    submitAnother: 'Enviar otro testimonio',
+    queuedTitle: 'Guardado - se enviará cuando haya conexión',
+    queuedDescription: 'Parece que no tienes conexión. Tu testimonio está guardado en este dispositivo y se enviará automáticamente en cuanto vuelvas a tener conexión.',
+    sentDescription: 'Vuelves a tener conexión y tu testimonio se ha enviado. Ahora está pendiente de revisión.',
+    failedTitle: 'Error en el envío',
+    failedDescription: '{error} Por favor, envíalo de nuevo.',
+    failedFallback: 'No se pudo enviar tu testimonio guardado.',
+  },
+  offline: {
+    title: 'No tienes conexión',
+    description: 'Esta página no está disponible sin conexión. Aun así puedes compartir tu testimonio - se enviará automáticamente cuando vuelvas a tener conexión.',
+  },
+  upload: {
+    progress: 'Subiendo {percent} %',
+    transferred: '{uploaded} de {total}',
+    speed: '{speed}/s · faltan {eta}',
+    calculating: 'Calculando...',
+  },
+  attachments: {
+    title: 'Documentos de respaldo',
+    optional: '(opcional)',
+    hint: 'Fotos o PDF, como informes médicos. Hasta {count} archivos.',
+    hintWithSize: 'Fotos o PDF, como informes médicos. Hasta {count} archivos de {size} cada uno.',
+    add: 'Añadir fotos o documentos',
+    remove: 'Quitar {file}',
+    cannotAttach: 'No se puede adjuntar el archivo',
+    unsupported: '{file} no es un tipo de archivo admitido. Usa fotos (JPEG, PNG, WebP, HEIC) o documentos PDF.',
+    tooLarge: '{file} es demasiado grande. El tamaño máximo es {size}',
+    tooMany: 'Demasiados adjuntos',
+    tooManyDescription: 'Puedes adjuntar hasta {count} archivos',
+  },
+  recorder: {
+    allowCamera: 'Permite el acceso a la cámara y al micrófono para grabar.',
+    allowMicrophone: 'Permite el acceso al micrófono para grabar.',
+    cannotStart: 'No se pudo iniciar la grabación en este dispositivo.',
+    paused: 'En pausa',
+    recording: 'Grabando',
+    maxLength: 'Las grabaciones pueden durar hasta {duration}',
+    tooShort: 'Las grabaciones deben durar al menos {seconds} segundos. Vuelve a grabar.',
+    start: 'Empezar a grabar',
+    pause: 'Pausa',
+    resume: 'Reanudar',
+    stop: 'Detener',
+    reRecord: 'Volver a grabar',
+    useRecording: 'Usar grabación',
+  },
+  compressor: {
+    overLimitVideo: '{file} ocupa {size}, más del límite de {limit}. Puedes comprimirlo en este dispositivo - tarda más o menos lo que dura el vídeo, así que mantén esta página abierta.',
+    overLimitAudio: '{file} ocupa {size}, más del límite de {limit}. Puedes comprimirlo en este dispositivo - tarda más o menos lo que dura la grabación, así que mantén esta página abierta.',
+    compressing: 'Comprimiendo... {percent} %',
+    failed: 'Error al comprimir',
+    chooseAnother: 'Elegir otro archivo',
+    compress: 'Comprimir',
+  },
+  privacy: {
+    title: 'Política de privacidad',
+    intro: 'Aquí explicamos qué hacemos con los datos que nos das cuando compartes un testimonio.',
+    collectTitle: 'Qué recopilamos',
+    collect: 'Tu nombre, correo electrónico, número de teléfono y país y, si los indicas, tu iglesia, grupo y usuario de KingsChat, junto con tu testimonio y los archivos que adjuntes.',
+    useTitle: 'Cómo los usamos',
+    use: 'Para revisar tu testimonio, contarlo para la meta de mil millones de testimonios y, solo si lo permites, contactarte sobre él.',
+    shareTitle: 'Qué se publica',
+    share: 'Solo lo que aceptes. Los testimonios públicos muestran la primera letra de tu nombre y tu país, los anónimos no muestran ninguno de los dos y los de uso interno nunca se publican. Tu correo y tu número de teléfono nunca se muestran públicamente.',
+    rightsTitle: 'Tus opciones',
+    rights: 'Puedes pedir al equipo del ministerio en cualquier momento que cambie cómo se comparte tu testimonio, que deje de contactarte o que elimine tu testimonio y tus datos.',
+  },
+}
+
+export default es
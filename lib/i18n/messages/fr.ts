@@ -0,0 +1,263 @@
+import type { Messages } from './en'
+
+const fr: Messages = {
+  common: {
+    error: 'Erreur',
+    tryAgain: 'Réessayer',
+    back: 'Retour',
+    continue: 'Continuer',
+    next: 'Suivant',
+    submit: 'Envoyer',
+    cancel: 'Annuler',
+    retry: 'Réessayer',
+    optional: 'Facultatif',
+    other: 'Autre',
+    wait: 'Patientez...',
+  },
+  header: {
+    testimonies: 'Témoignages',
+    shareTestimony: 'Partager un témoignage',
+    language: 'Langue',
+  },
+  hero: {
+    badge: 'Partagez votre histoire',
+    title: 'Un milliard de témoignages',
+    titleAccent: '& plus',
+    subtitle: 'Rejoignez des millions de personnes qui témoignent de la fidélité de Dieu à travers le monde',
+  },
+  steps: {
+    category: 'Catégorie',
+    details: 'Détails',
+    personal: 'Coordonnées',
+    testimony: 'Témoignage',
+    review: 'Vérification',
+  },
+  draft: {
+    title: 'Reprendre là où vous vous êtes arrêté ?',
+    description: 'Vous avez un témoignage non terminé du {date}.',
+    startOver: 'Recommencer',
+    continue: 'Reprendre',
+  },
+  category: {
+    typeHeading: 'Type de témoignage *',
+    noTypes: 'Aucun type disponible',
+    typePlaceholder: 'De quoi parle votre témoignage ?',
+    heading: 'Choisissez une catégorie *',
+    network: 'Réseau',
+    networkDescription: 'REON, TNI, Youths Aglow, etc.',
+    external: 'Catégorie externe',
+    externalDescription: 'Autres catégories',
+    region: 'Zone / Groupe / Église',
+  },
+  details: {
+    networkHeading: 'Choisissez un réseau',
+    externalHeading: 'Choisissez une catégorie',
+    regionHeading: 'Choisissez la zone, le groupe et l\'église',
+    network: 'Réseau *',
+    noNetworks: 'Aucun réseau disponible',
+    chooseNetwork: 'Choisir un réseau',
+    networkName: 'Nom du réseau *',
+    networkNamePlaceholder: 'Saisissez le nom du réseau',
+    category: 'Catégorie *',
+    noCategories: 'Aucune catégorie disponible',
+    chooseCategory: 'Choisir une catégorie',
+    categoryName: 'Nom de la catégorie *',
+    categoryNamePlaceholder: 'Saisissez le nom de la catégorie',
+    zone: 'Zone *',
+    noZones: 'Aucune zone disponible',
+    selectZone: 'Choisir une zone',
+    group: 'Groupe *',
+    loadingGroups: 'Chargement des groupes...',
+    groupsError: 'Erreur de chargement des groupes',
+    selectGroup: 'Choisir un groupe',
+    addGroup: '+ Ajouter un groupe',
+    newGroup: 'Nom du nouveau groupe *',
+    newGroupPlaceholder: 'Saisissez le nom du groupe',
+    church: 'Église *',
+    churchPlaceholder: 'Le nom de votre église',
+  },
+  personal: {
+    heading: 'Informations personnelles',
+    name: 'Nom complet *',
+    namePlaceholder: 'Votre nom',
+    email: 'E-mail *',
+    country: 'Pays *',
+    noCountries: 'Aucun pays disponible',
+    selectCountry: 'Choisir un pays',
+    phone: 'Téléphone *',
+    phonePlaceholder: 'Numéro de téléphone',
+    kingschat: 'Nom d\'utilisateur KingsChat',
+  },
+  testimony: {
+    heading: 'Votre témoignage',
+    text: 'Texte',
+    video: 'Vidéo',
+    audio: 'Audio',
+    storageFull: 'L\'envoi de vidéos et d\'audios est temporairement indisponible car notre espace de stockage est plein. Vous pouvez toujours partager votre témoignage par écrit.',
+    textPlaceholder: 'Partagez votre témoignage...',
+    uploadFile: 'Envoyer un fichier',
+    recordVideo: 'Enregistrer une vidéo',
+    recordAudio: 'Enregistrer un audio',
+    checkingFile: 'Vérification du fichier...',
+    tapToChange: 'Touchez pour changer',
+    tapToUploadVideo: 'Touchez pour envoyer une vidéo',
+    tapToUploadAudio: 'Touchez pour envoyer un audio',
+    maxSize: 'Max {size}',
+    alreadyUploaded: 'Ce fichier a déjà été envoyé et ne sera pas renvoyé.',
+    resumeFrom: 'L\'envoi précédent de ce fichier reprendra à {percent} %.',
+    interrupted: 'L\'envoi de « {file} » a été interrompu à {percent} %. Sélectionnez le même fichier pour reprendre là où il s\'est arrêté.',
+  },
+  review: {
+    heading: 'Vérifier et envoyer',
+    testimonyType: 'Type de témoignage',
+    category: 'Catégorie',
+    network: 'Réseau',
+    external: 'Externe',
+    externalCategory: 'Catégorie externe',
+    region: 'Zone/Groupe/Église',
+    zone: 'Zone',
+    group: 'Groupe',
+    church: 'Église',
+    name: 'Nom',
+    email: 'E-mail',
+    phone: 'Téléphone',
+    contentType: 'Format',
+    testimony: 'Témoignage',
+    file: 'Fichier',
+    attachments: 'Pièces jointes',
+    creatingGroup: 'Création du groupe...',
+    uploading: 'Envoi du fichier...',
+    submitting: 'Envoi en cours...',
+    duplicateTitle: 'Vous l\'avez peut-être déjà partagé',
+    duplicateDescription: 'Nous avons trouvé un témoignage que vous avez déjà envoyé et qui semble identique. S\'il s\'agit d\'un autre témoignage, vous pouvez l\'envoyer.',
+  },
+  consent: {
+    heading: 'Votre consentement',
+    publication: 'Comment pouvons-nous partager votre témoignage ?',
+    public: 'Publiquement, avec mon nom',
+    publicDescription: 'Sur ce site et les sites partenaires, avec la première lettre de votre nom et votre pays',
+    anonymous: 'Publiquement, sans mon nom',
+    anonymousDescription: 'Sur ce site et les sites partenaires, sans nom ni initiale',
+    internal: 'Usage interne uniquement',
+    internalDescription: 'Lu uniquement par l\'équipe du ministère et jamais publié',
+    contact: 'L\'équipe du ministère peut me contacter au sujet de mon témoignage',
+    contactDescription: 'Par e-mail, téléphone ou KingsChat, par exemple pour un suivi ou pour vérifier des détails',
+    privacy: 'J\'ai lu la politique de confidentialité et j\'accepte que mes informations soient utilisées pour traiter mon témoignage',
+    privacyLink: 'Lire la politique de confidentialité',
+    required: 'Choisissez comment votre témoignage peut être partagé et acceptez la politique de confidentialité pour l\'envoyer.',
+  },
+  errors: {
+    loadFormTitle: 'Impossible de charger le formulaire',
+    loadData: 'Impossible de charger les données',
+    loadGroups: 'Impossible de charger les groupes',
+    fileTooLarge: 'Fichier trop volumineux',
+    maxSize: 'La taille maximale est de {size}',
+    cannotUseFile: 'Impossible d\'utiliser ce fichier',
+    fileUnreadable: 'Ce fichier n\'a pas pu être lu',
+    createGroup: 'Impossible de créer le groupe',
+    pleaseTryAgain: 'Veuillez réessayer',
+    uploadCancelled: 'Envoi annulé',
+    uploadCancelledDescription: 'Votre progression a été enregistrée. Envoyez à nouveau pour reprendre l\'envoi.',
+    submissionFailed: 'Échec de l\'envoi',
+    network: 'Impossible de joindre le serveur. Veuillez vérifier votre connexion.',
+    uploadInterrupted: 'Envoi interrompu. Veuillez vérifier votre connexion et soumettre à nouveau pour reprendre.',
+    submissionTimedOut: 'L\'envoi a pris trop de temps. Veuillez vérifier votre connexion et réessayer.',
+    requestFailed: 'Le serveur n\'a pas pu traiter cette demande ({status}). Veuillez réessayer.',
+    verificationFailed: 'Impossible de vérifier ce navigateur. Veuillez réessayer.',
+  },
+  mediaErrors: {
+    tooSlow: 'La lecture de ce fichier a pris trop de temps. Il est peut-être endommagé.',
+    damaged: 'Ce fichier semble endommagé ou utilise un format que votre appareil ne peut pas lire.',
+    noDuration: 'Impossible de lire la durée de ce fichier.',
+    unsupportedVideo: 'Ce format vidéo n\'est pas pris en charge. Veuillez utiliser {formats} ou un format similaire.',
+    unsupportedAudio: 'Ce format audio n\'est pas pris en charge. Veuillez utiliser {formats} ou un format similaire.',
+    tooShort: 'Cet enregistrement est trop court. Il doit durer au moins {seconds} secondes.',
+    tooLong: 'Cet enregistrement est trop long. La durée maximale est de {duration}.',
+    noPicture: 'Ce fichier ne contient pas d\'image vidéo. Pour partager uniquement le son, choisissez plutôt Audio.',
+    empty: 'Ce fichier est vide.',
+    unreadable: 'Votre navigateur n\'a pas pu lire ce fichier.',
+    tooLongToCompress: 'Ce fichier est trop long pour être compressé sous la taille limite.',
+    compressionUnsupported: 'La compression vidéo n\'est pas prise en charge sur cet appareil.',
+    compressionPlaybackFailed: 'La lecture a échoué pendant la compression.',
+    stillTooLarge: 'Le fichier compressé est encore trop volumineux. Veuillez choisir un fichier plus court.',
+  },
+  validation: {
+    testimonyTypeRequired: 'Le type de témoignage est obligatoire',
+    nameMin: 'Le nom doit contenir au moins 2 caractères',
+    emailInvalid: 'Adresse e-mail invalide',
+    countryRequired: 'Le pays est obligatoire',
+    countryCodeRequired: 'L\'indicatif du pays est obligatoire',
+    phoneInvalid: 'Numéro de téléphone invalide',
+  },
+  success: {
+    title: 'Merci !',
+    description: 'Votre témoignage a bien été envoyé et est en attente de validation.',
+    submitAnother: 'Partager un autre témoignage',
+    queuedTitle: 'Enregistré - sera envoyé une fois en ligne',
+    queuedDescription: 'Vous semblez être hors ligne. Votre témoignage est enregistré sur cet appareil et sera envoyé automatiquement dès que vous aurez de nouveau une connexion.',
+    sentDescription: 'Vous êtes de nouveau en ligne et votre témoignage a été envoyé. Il est en attente de validation.',
+    failedTitle: 'Échec de l\'envoi',
+    failedDescription: '{error} Veuillez l\'envoyer à nouveau.',
+    failedFallback: 'Votre témoignage enregistré n\'a pas pu être envoyé.',
+  },
+  offline: {
+    title: 'Vous êtes hors ligne',
+    description: 'Cette page n\'est pas disponible sans connexion. Vous pouvez tout de même partager votre témoignage - il sera envoyé automatiquement dès que vous serez de nouveau en ligne.',
+  },
+  upload: {
+    progress: 'Envoi {percent} %',
+    transferred: '{uploaded} sur {total}',
+    speed: '{speed}/s · {eta} restantes',
+    calculating: 'Calcul en cours...',
+  },
+  attachments: {
+    title: 'Documents justificatifs',
+    optional: '(facultatif)',
+    hint: 'Photos ou PDF, par exemple des rapports médicaux. Jusqu\'à {count} fichiers.',
+    hintWithSize: 'Photos ou PDF, par exemple des rapports médicaux. Jusqu\'à {count} fichiers de {size} chacun.',
+    add: 'Ajouter des photos ou des documents',
+    remove: 'Retirer {file}',
+    cannotAttach: 'Impossible de joindre le fichier',
+    unsupported: '{file} n\'est pas un type de fichier pris en charge. Utilisez des photos (JPEG, PNG, WebP, HEIC) ou des documents PDF.',
+    tooLarge: '{file} est trop volumineux. La taille maximale est de {size}',
+    tooMany: 'Trop de pièces jointes',
+    tooManyDescription: 'Vous pouvez joindre jusqu\'à {count} fichiers',
+  },
+  recorder: {
+    allowCamera: 'Veuillez autoriser l\'accès à votre caméra et à votre micro pour enregistrer.',
+    allowMicrophone: 'Veuillez autoriser l\'accès à votre micro pour enregistrer.',
+    cannotStart: 'Impossible de démarrer l\'enregistrement sur cet appareil.',
+    paused: 'En pause',
+    recording: 'Enregistrement',
+    maxLength: 'Les enregistrements peuvent durer jusqu\'à {duration}',
+    tooShort: 'Les enregistrements doivent durer au moins {seconds} secondes. Veuillez enregistrer à nouveau.',
+    start: 'Démarrer l\'enregistrement',
+    pause: 'Pause',
+    resume: 'Reprendre',
+    stop: 'Arrêter',
+    reRecord: 'Recommencer',
+    useRecording: 'Utiliser cet enregistrement',
+  },
+  compressor: {
+    overLimitVideo: '{file} fait {size}, au-delà de la limite de {limit}. Vous pouvez le compresser sur cet appareil - cela prend à peu près la durée de la vidéo, gardez donc cette page ouverte.',
+    overLimitAudio: '{file} fait {size}, au-delà de la limite de {limit}. Vous pouvez le compresser sur cet appareil - cela prend à peu près la durée de l\'enregistrement, gardez donc cette page ouverte.',
+    compressing: 'Compression... {percent} %',
+    failed: 'Échec de la compression',
+    chooseAnother: 'Choisir un autre fichier',
+    compress: 'Compresser',
+  },
+  privacy: {
+    title: 'Politique de confidentialité',
+    intro: 'Voici ce que nous faisons des informations que vous nous donnez lorsque vous partagez un témoignage.',
+    collectTitle: 'Ce que nous collectons',
+    collect: 'Votre nom, votre adresse e-mail, votre numéro de téléphone et votre pays et, si vous les indiquez, votre église, votre groupe et votre nom d\'utilisateur KingsChat, ainsi que votre témoignage et les fichiers joints.',
+    useTitle: 'Comment nous les utilisons',
+    use: 'Pour examiner votre témoignage, le compter dans l\'objectif d\'un milliard de témoignages et, seulement si vous l\'autorisez, vous contacter à son sujet.',
+    shareTitle: 'Ce qui est publié',
+    share: 'Uniquement ce que vous acceptez. Les témoignages publics affichent la première lettre de votre nom et votre pays, les témoignages anonymes n\'affichent ni l\'un ni l\'autre, et les témoignages à usage interne ne sont jamais publiés. Votre adresse e-mail et votre numéro de téléphone ne sont jamais affichés publiquement.',
+    rightsTitle: 'Vos choix',
+    rights: 'Vous pouvez à tout moment demander à l\'équipe du ministère de modifier la façon dont votre témoignage est partagé, de ne plus vous contacter ou de supprimer votre témoignage et vos informations.',
+  },
+}
+
+export default fr
@@ -0,0 +1,263 @@
+import type { Messages } from './en'
+
+const pt: Messages = {
+  common: {
+    error: 'Erro',
+    tryAgain: 'Tentar novamente',
+    back: 'Voltar',
+    continue: 'Continuar',
+    next: 'Próximo',
+    submit: 'Enviar',
+    cancel: 'Cancelar',
+    retry: 'Tentar novamente',
+    optional: 'Opcional',
+    other: 'Outro',
+    wait: 'Aguarde...',
+  },
+  header: {
+    testimonies: 'Testemunhos',
+    shareTestimony: 'Partilhar testemunho',
+    language: 'Idioma',
+  },
+  hero: {
+    badge: 'Partilhe a sua história',
+    title: 'Mil Milhões de Testemunhos',
+    titleAccent: '& Mais',
+    subtitle: 'Junte-se a milhões que partilham testemunhos da fidelidade de Deus em todo o mundo',
+  },
+  steps: {
+    category: 'Categoria',
+    details: 'Detalhes',
+    personal: 'Dados pessoais',
+    testimony: 'Testemunho',
+    review: 'Revisão',
+  },
+  draft: {
+    title: 'Continuar de onde parou?',
+    description: 'Tem um testemunho por terminar de {date}.',
+    startOver: 'Recomeçar',
+    continue: 'Continuar',
+  },
+  category: {
+    typeHeading: 'Tipo de testemunho *',
+    noTypes: 'Nenhum tipo disponível',
+    typePlaceholder: 'Sobre o que é o seu testemunho?',
+    heading: 'Selecione a categoria *',
+    network: 'Rede',
+    networkDescription: 'REON, TNI, Youths Aglow, etc.',
+    external: 'Categoria externa',
+    externalDescription: 'Outras categorias',
+    region: 'Zona / Grupo / Igreja',
+  },
+  details: {
+    networkHeading: 'Selecione a rede',
+    externalHeading: 'Selecione a categoria',
+    regionHeading: 'Selecione a zona, o grupo e a igreja',
+    network: 'Rede *',
+    noNetworks: 'Nenhuma rede disponível',
+    chooseNetwork: 'Escolha a rede',
+    networkName: 'Nome da rede *',
+    networkNamePlaceholder: 'Introduza o nome da rede',
+    category: 'Categoria *',
+    noCategories: 'Nenhuma categoria disponível',
+    chooseCategory: 'Escolha a categoria',
+    categoryName: 'Nome da categoria *',
+    categoryNamePlaceholder: 'Introduza o nome da categoria',
+    zone: 'Zona *',
+    noZones: 'Nenhuma zona disponível',
+    selectZone: 'Selecione a zona',
+    group: 'Grupo *',
+    loadingGroups: 'A carregar grupos...',
+    groupsError: 'Erro ao carregar grupos',
+    selectGroup: 'Selecione o grupo',
+    addGroup: '+ Adicionar novo grupo',
+    newGroup: 'Nome do novo grupo *',
+    newGroupPlaceholder: 'Introduza o nome do grupo',
+    church: 'Igreja *',
+    churchPlaceholder: 'O nome da sua igreja',
+  },
+  personal: {
+    heading: 'Informações pessoais',
+    name: 'Nome completo *',
+    namePlaceholder: 'O seu nome',
+    email: 'E-mail *',
+    country: 'País *',
+    noCountries: 'Nenhum país disponível',
+    selectCountry: 'Selecione o país',
+    phone: 'Telefone *',
+    phonePlaceholder: 'Número de telefone',
+    kingschat: 'Nome de utilizador KingsChat',
+  },
+  testimony: {
+    heading: 'O seu testemunho',
+    text: 'Texto',
+    video: 'Vídeo',
+    audio: 'Áudio',
+    storageFull: 'O envio de vídeo e áudio está temporariamente indisponível porque o nosso armazenamento está cheio. Ainda pode partilhar o seu testemunho em texto.',
+    textPlaceholder: 'Partilhe o seu testemunho...',
+    uploadFile: 'Enviar um ficheiro',
+    recordVideo: 'Gravar vídeo',
+    recordAudio: 'Gravar áudio',
+    checkingFile: 'A verificar o ficheiro...',
+    tapToChange: 'Toque para alterar',
+    tapToUploadVideo: 'Toque para enviar vídeo',
+    tapToUploadAudio: 'Toque para enviar áudio',
+    maxSize: 'Máx. {size}',
+    alreadyUploaded: 'Este ficheiro já foi enviado e não será enviado novamente.',
+    resumeFrom: 'O envio anterior deste ficheiro será retomado a partir de {percent}%.',
+    interrupted: 'O envio de "{file}" foi interrompido em {percent}%. Selecione o mesmo ficheiro para continuar de onde parou.',
+  },
+  review: {
+    heading: 'Rever e enviar',
+    testimonyType: 'Tipo de testemunho',
+    category: 'Categoria',
+    network: 'Rede',
+    external: 'Externa',
+    externalCategory: 'Categoria externa',
+    region: 'Zona/Grupo/Igreja',
+    zone: 'Zona',
+    group: 'Grupo',
+    church: 'Igreja',
+    name: 'Nome',
+    email: 'E-mail',
+    phone: 'Telefone',
+    contentType: 'Formato',
+    testimony: 'Testemunho',
+    file: 'Ficheiro',
+    attachments: 'Anexos',
+    creatingGroup: 'A criar grupo...',
+    uploading: 'A enviar ficheiro...',
+    submitting: 'A enviar...',
+    duplicateTitle: 'Talvez já tenha partilhado isto',
+    duplicateDescription: 'Encontrámos um testemunho que já enviou e que parece ser o mesmo. Se este for um testemunho diferente, pode enviá-lo.',
+  },
+  consent: {
+    heading: 'O seu consentimento',
+    publication: 'Como podemos partilhar o seu testemunho?',
+    public: 'Publicamente, com o meu nome',
+    publicDescription: 'Neste site e em sites parceiros, com a primeira letra do seu nome e o seu país',
+    anonymous: 'Publicamente, sem o meu nome',
+    anonymousDescription: 'Neste site e em sites parceiros, sem nome nem inicial',
+    internal: 'Apenas uso interno',
+    internalDescription: 'Lido apenas pela equipa do ministério e nunca publicado',
+    contact: 'A equipa do ministério pode contactar-me sobre o meu testemunho',
+    contactDescription: 'Por email, telefone ou KingsChat, por exemplo para dar seguimento ou confirmar detalhes',
+    privacy: 'Li a política de privacidade e aceito que os meus dados sejam usados para tratar o meu testemunho',
+    privacyLink: 'Ler a política de privacidade',
+    required: 'Escolha como o seu testemunho pode ser partilhado e aceite a política de privacidade para o enviar.',
+  },
+  errors: {
+    loadFormTitle: 'Não foi possível carregar o formulário',
+    loadData: 'Não foi possível carregar os dados',
+    loadGroups: 'Não foi possível carregar os grupos',
+    fileTooLarge: 'Ficheiro demasiado grande',
+    maxSize: 'O tamanho máximo é {size}',
+    cannotUseFile: 'Não é possível usar este ficheiro',
+    fileUnreadable: 'Não foi possível ler este ficheiro',
+    createGroup: 'Não foi possível criar o grupo',
+    pleaseTryAgain: 'Por favor, tente novamente',
+    uploadCancelled: 'Envio cancelado',
+    uploadCancelledDescription: 'O seu progresso foi guardado. Envie novamente para continuar o envio.',
+    submissionFailed: 'Falha no envio',
+    network: 'Não foi possível contactar o servidor. Verifique a sua ligação.',
+    uploadInterrupted: 'Envio interrompido. Verifique a sua ligação e submeta novamente para retomar.',
+    submissionTimedOut: 'O envio demorou demasiado. Verifique a sua ligação e tente novamente.',
+    requestFailed: 'O servidor não conseguiu concluir este pedido ({status}). Tente novamente.',
+    verificationFailed: 'Não foi possível verificar este navegador. Tente novamente.',
+  },
+  mediaErrors: {
+    tooSlow: 'A leitura deste ficheiro demorou demasiado. Pode estar danificado.',
+    damaged: 'Este ficheiro parece estar danificado ou usa um formato que o seu dispositivo não consegue reproduzir.',
+    noDuration: 'Não foi possível ler a duração deste ficheiro.',
+    unsupportedVideo: 'Este formato de vídeo não é suportado. Utilize {formats} ou semelhante.',
+    unsupportedAudio: 'Este formato de áudio não é suportado. Utilize {formats} ou semelhante.',
+    tooShort: 'Esta gravação é demasiado curta. Tem de ter pelo menos {seconds} segundos.',
+    tooLong: 'Esta gravação é demasiado longa. A duração máxima é {duration}.',
+    noPicture: 'Este ficheiro não tem imagem de vídeo. Para partilhar apenas áudio, escolha Áudio.',
+    empty: 'Este ficheiro está vazio.',
+    unreadable: 'O seu navegador não conseguiu ler este ficheiro.',
+    tooLongToCompress: 'Este ficheiro é demasiado longo para ser comprimido abaixo do limite de tamanho.',
+    compressionUnsupported: 'A compressão de vídeo não é suportada neste dispositivo.',
+    compressionPlaybackFailed: 'A reprodução falhou durante a compressão.',
+    stillTooLarge: 'O ficheiro comprimido continua demasiado grande. Escolha um ficheiro mais curto.',
+  },
+  validation: {
+    testimonyTypeRequired: 'O tipo de testemunho é obrigatório',
+    nameMin: 'O nome deve ter pelo menos 2 caracteres',
+    emailInvalid: 'Endereço de e-mail inválido',
+    countryRequired: 'O país é obrigatório',
+    countryCodeRequired: 'O indicativo do país é obrigatório',
+    phoneInvalid: 'Número de telefone inválido',
+  },
+  success: {
+    title: 'Obrigado!',
+    description: 'O seu testemunho foi enviado com sucesso e aguarda revisão.',
+    submitAnother: 'Enviar outro testemunho',
+    queuedTitle: 'Guardado - será enviado quando estiver online',
+    queuedDescription: 'Parece estar offline. O seu testemunho está guardado neste dispositivo e será enviado automaticamente assim que voltar a ter ligação.',
+    sentDescription: 'Voltou a estar online e o seu testemunho foi enviado. Aguarda agora revisão.',
+    failedTitle: 'Falha no envio',
+    failedDescription: '{error} Por favor, envie-o novamente.',
+    failedFallback: 'Não foi possível enviar o seu testemunho guardado.',
+  },
+  offline: {
+    title: 'Está offline',
+    description: 'Esta página não está disponível sem ligação. Ainda pode partilhar o seu testemunho - será enviado automaticamente quando voltar a estar online.',
+  },
+  upload: {
+    progress: 'A enviar {percent}%',
+    transferred: '{uploaded} de {total}',
+    speed: '{speed}/s · faltam {eta}',
+    calculating: 'A calcular...',
+  },
+  attachments: {
+    title: 'Documentos de apoio',
+    optional: '(opcional)',
+    hint: 'Fotos ou PDFs, como relatórios médicos. Até {count} ficheiros.',
+    hintWithSize: 'Fotos ou PDFs, como relatórios médicos. Até {count} ficheiros, {size} cada.',
+    add: 'Adicionar fotos ou documentos',
+    remove: 'Remover {file}',
+    cannotAttach: 'Não é possível anexar o ficheiro',
+    unsupported: '{file} não é um tipo de ficheiro suportado. Use fotos (JPEG, PNG, WebP, HEIC) ou documentos PDF.',
+    tooLarge: '{file} é demasiado grande. O tamanho máximo é {size}',
+    tooMany: 'Demasiados anexos',
+    tooManyDescription: 'Pode anexar até {count} ficheiros',
+  },
+  recorder: {
+    allowCamera: 'Permita o acesso à câmara e ao microfone para gravar.',
+    allowMicrophone: 'Permita o acesso ao microfone para gravar.',
+    cannotStart: 'Não foi possível iniciar a gravação neste dispositivo.',
+    paused: 'Em pausa',
+    recording: 'A gravar',
+    maxLength: 'As gravações podem ter até {duration}',
+    tooShort: 'As gravações têm de ter pelo menos {seconds} segundos. Grave novamente.',
+    start: 'Iniciar gravação',
+    pause: 'Pausa',
+    resume: 'Retomar',
+    stop: 'Parar',
+    reRecord: 'Gravar novamente',
+    useRecording: 'Usar gravação',
+  },
+  compressor: {
+    overLimitVideo: '{file} tem {size}, acima do limite de {limit}. Pode comprimi-lo neste dispositivo - demora mais ou menos a duração do vídeo, por isso mantenha esta página aberta.',
+    overLimitAudio: '{file} tem {size}, acima do limite de {limit}. Pode comprimi-lo neste dispositivo - demora mais ou menos a duração da gravação, por isso mantenha esta página aberta.',
+    compressing: 'A comprimir... {percent}%',
+    failed: 'Falha na compressão',
+    chooseAnother: 'Escolher outro ficheiro',
+    compress: 'Comprimir',
+  },
+  privacy: {
+    title: 'Política de Privacidade',
+    intro: 'Explicamos aqui o que fazemos com os dados que nos dá quando partilha um testemunho.',
+    collectTitle: 'O que recolhemos',
+    collect: 'O seu nome, email, número de telefone e país e, se os indicar, a sua igreja, grupo e nome de utilizador do KingsChat, juntamente com o seu testemunho e os ficheiros que anexar.',
+    useTitle: 'Como os usamos',
+    use: 'Para rever o seu testemunho, contá-lo para o objetivo de mil milhões de testemunhos e, apenas se o permitir, contactá-lo sobre ele.',
+    shareTitle: 'O que é publicado',
+    share: 'Apenas o que aceitar. Os testemunhos públicos mostram a primeira letra do seu nome e o seu país, os anónimos não mostram nenhum dos dois e os de uso interno nunca são publicados. O seu email e número de telefone nunca são mostrados publicamente.',
+    rightsTitle: 'As suas escolhas',
+    rights: 'Pode pedir à equipa do ministério, a qualquer momento, que altere a forma como o seu testemunho é partilhado, que deixe de o contactar ou que apague o seu testemunho e os seus dados.',
+  },
+}
+
+export default pt
@@ -0,0 +1,74 @@
+"use client"
+
+import React, { createContext, useContext, useState, useEffect, useCallback } from 'react'
+import { DirectionProvider } from '@radix-ui/react-direction'
+import {
+  DEFAULT_LOCALE,
+  LOCALE_COOKIE,
+  getDirection,
+  getMessages,
+  isLocale,
+  translate,
+  type Locale,
+  type MessageKey,
+  type TranslationValues,
+} from '.'
+
+interface I18nContextType {
+  locale: Locale
+  setLocale: (locale: Locale) => void
+  t: (key: MessageKey, values?: TranslationValues) => string
+}
+
+const I18nContext = createContext<I18nContextType | undefined>(undefined)
+
+const ONE_YEAR = 60 * 60 * 24 * 365
+
+function readLocaleCookie(): Locale | null {
+  const match = document.cookie.match(new RegExp(`(?:^|; )${LOCALE_COOKIE}=([^;]*)`))
+  const value = match ? decodeURIComponent(match[1]) : null
+  return isLocale(value) ? value : null
+}
+
+// The locale is read from the cookie after mount rather than on the server so
+// statically rendered pages stay static
+export function I18nProvider({ children }: { children: React.ReactNode }) {
+  const [locale, setLocaleState] = useState<Locale>(DEFAULT_LOCALE)
+
+  useEffect(() => {
+    const saved = readLocaleCookie()
+    if (saved) setLocaleState(saved)
+  }, [])
+
+  useEffect(() => {
+    document.documentElement.lang = locale
+    document.documentElement.dir = getDirection(locale)
+  }, [locale])
+
+  const setLocale = useCallback((next: Locale) => {
+    document.cookie = `${LOCALE_COOKIE}=${next}; path=/; max-age=${ONE_YEAR}; samesite=lax`
+    setLocaleState(next)
+  }, [])
+
+  const t = useCallback(
+    (key: MessageKey, values?: TranslationValues) => translate(getMessages(locale), key, values),
+    [locale]
+  )
+
+  return (
+    <I18nContext.Provider value={{ locale, setLocale, t }}>
+      {/* Radix menus and selects don't read dir from the document */}
+      <DirectionProvider dir={getDirection(locale)}>
+        {children}
+      </DirectionProvider>
+    </I18nContext.Provider>
+  )
+}
+
+export function useI18n() {
+  const context = useContext(I18nContext)
+  if (context === undefined) {
+    throw new Error('useI18n must be used within an I18nProvider')
+  }
+  return context
+}
@@ -0,0 +1,72 @@
+// Minimal promise wrapper around IndexedDB for data too large or too binary
+// for localStorage (media files, queued submissions)
+
+// public/sw.js opens the same database; keep its version and stores in step
+const DB_NAME = 'abtm'
+const DB_VERSION = 2
+
+export type StoreName = 'drafts' | 'outbox'
+
+// Files are stored with their metadata so they can be rebuilt as the same File
+export interface StoredFile {
+  blob: Blob
+  name: string
+  type: string
+  lastModified: number
+}
+
+export function toStoredFile(file: File): StoredFile {
+  return { blob: file, name: file.name, type: file.type, lastModified: file.lastModified }
+}
+
+export function fromStoredFile(stored: StoredFile): File {
+  return new File([stored.blob], stored.name, { type: stored.type, lastModified: stored.lastModified })
+}
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      const db = request.result
+      if (!db.objectStoreNames.contains('drafts')) db.createObjectStore('drafts')
+      if (!db.objectStoreNames.contains('outbox')) db.createObjectStore('outbox')
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+async function withStore<T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest
+): Promise<T> {
+  const db = await openDb()
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const tx = db.transaction(storeName, mode)
+      const request = run(tx.objectStore(storeName))
+      tx.oncomplete = () => resolve(request.result as T)
+      tx.onerror = () => reject(tx.error)
+      tx.onabort = () => reject(tx.error)
+    })
+  } finally {
+    db.close()
+  }
+}
+
+export function idbGet<T>(storeName: StoreName, key: string): Promise<T | undefined> {
+  return withStore<T | undefined>(storeName, 'readonly', store => store.get(key))
+}
+
+export async function idbPut<T>(storeName: StoreName, key: string, value: T): Promise<void> {
+  await withStore(storeName, 'readwrite', store => store.put(value, key))
+}
+
+export async function idbDelete(storeName: StoreName, key: string): Promise<void> {
+  await withStore(storeName, 'readwrite', store => store.delete(key))
+}
+
+export function idbGetAll<T>(storeName: StoreName): Promise<T[]> {
+  return withStore<T[]>(storeName, 'readonly', store => store.getAll())
+}
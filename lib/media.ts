@@ -0,0 +1,218 @@
+import type { UploadLimits } from '@/types'
+import { LocalizedError } from './errors'
+import type { MessageKey, TranslationValues } from './i18n'
+
+export type MediaKind = 'VIDEO' | 'AUDIO'
+
+// Containers MediaRecorder can produce, in order of preference
+const RECORDER_MIME_TYPES: Record<MediaKind, string[]> = {
+  VIDEO: ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm', 'video/mp4'],
+  AUDIO: ['audio/webm;codecs=opus', 'audio/webm', 'audio/mp4', 'audio/ogg'],
+}
+
+export function pickRecorderMimeType(kind: MediaKind): string | undefined {
+  return RECORDER_MIME_TYPES[kind].find(type => MediaRecorder.isTypeSupported(type))
+}
+
+export function getRecorderExtension(kind: MediaKind, mimeType: string): string {
+  if (mimeType.includes('mp4')) return kind === 'VIDEO' ? 'mp4' : 'm4a'
+  if (mimeType.includes('ogg')) return 'ogg'
+  return 'webm'
+}
+
+export function formatDuration(seconds: number): string {
+  const m = Math.floor(seconds / 60)
+  const s = Math.floor(seconds % 60)
+  return `${m}:${s.toString().padStart(2, '0')}`
+}
+
+// Accepted length of a testimony recording, in seconds
+export function getDurationLimits(limits: UploadLimits, kind: MediaKind): { min: number; max: number } {
+  return {
+    min: limits.minMediaDuration,
+    max: kind === 'VIDEO' ? limits.maxVideoDuration : limits.maxAudioDuration,
+  }
+}
+
+const PROBE_TIMEOUT = 20 * 1000
+const POSTER_WIDTH = 640
+// How much of the start and end of a file to scan for container/codec markers
+const SNIFF_BYTES = 1024 * 1024
+
+export interface MediaInfo {
+  duration: number
+  width?: number
+  height?: number
+  container: string
+  codecs: string[]
+  poster?: string
+}
+
+export class MediaValidationError extends LocalizedError {
+  constructor(key: MessageKey, values?: TranslationValues) {
+    super(key, values)
+    this.name = 'MediaValidationError'
+  }
+}
+
+function findAscii(bytes: Uint8Array, text: string): boolean {
+  const first = text.charCodeAt(0)
+  outer: for (let i = bytes.indexOf(first); i !== -1 && i <= bytes.length - text.length; i = bytes.indexOf(first, i + 1)) {
+    for (let j = 1; j < text.length; j++) {
+      if (bytes[i + j] !== text.charCodeAt(j)) continue outer
+    }
+    return true
+  }
+  return false
+}
+
+function detectContainer(head: Uint8Array): string | null {
+  const ascii = (start: number, end: number) => String.fromCharCode(...Array.from(head.slice(start, end)))
+  if (ascii(4, 8) === 'ftyp') {
+    return ascii(8, 10) === 'qt' ? 'mov' : ascii(8, 11) === '3gp' ? '3gp' : 'mp4'
+  }
+  if (head[0] === 0x1a && head[1] === 0x45 && head[2] === 0xdf && head[3] === 0xa3) {
+    return findAscii(head.slice(0, 64), 'webm') ? 'webm' : 'mkv'
+  }
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WAVE') return 'wav'
+  if (ascii(0, 4) === 'OggS') return 'ogg'
+  if (ascii(0, 4) === 'fLaC') return 'flac'
+  if (ascii(0, 3) === 'ID3' || (head[0] === 0xff && (head[1] & 0xe0) === 0xe0)) {
+    return (head[1] & 0x06) === 0 ? 'aac' : 'mp3'
+  }
+  if (ascii(0, 5) === '#!AMR') return 'amr'
+  return null
+}
+
+// Codec identifiers as they appear inside MP4 sample entries and Matroska tracks
+const CODEC_MARKERS: [string, string][] = [
+  ['avc1', 'H.264'], ['hvc1', 'HEVC'], ['hev1', 'HEVC'], ['vp09', 'VP9'], ['av01', 'AV1'], ['mp4a', 'AAC'],
+  ['V_VP8', 'VP8'], ['V_VP9', 'VP9'], ['V_AV1', 'AV1'], ['V_MPEG4/ISO/AVC', 'H.264'],
+  ['A_OPUS', 'Opus'], ['A_VORBIS', 'Vorbis'], ['A_AAC', 'AAC'], ['OpusHead', 'Opus'], ['vorbis', 'Vorbis'],
+]
+
+const SUPPORTED_CONTAINERS: Record<MediaKind, string[]> = {
+  VIDEO: ['mp4', 'mov', '3gp', 'webm', 'mkv', 'ogg'],
+  AUDIO: ['mp3', 'aac', 'mp4', '3gp', 'wav', 'ogg', 'flac', 'webm', 'amr'],
+}
+
+async function sniffFile(file: File): Promise<{ container: string | null; codecs: string[] }> {
+  const head = new Uint8Array(await file.slice(0, SNIFF_BYTES).arrayBuffer())
+  // MP4 files often keep their track metadata (moov) at the end
+  const tail = file.size > SNIFF_BYTES
+    ? new Uint8Array(await file.slice(-SNIFF_BYTES).arrayBuffer())
+    : new Uint8Array()
+
+  const codecs = new Set<string>()
+  for (const [marker, codec] of CODEC_MARKERS) {
+    if (findAscii(head, marker) || findAscii(tail, marker)) codecs.add(codec)
+  }
+  return { container: detectContainer(head), codecs: Array.from(codecs) }
+}
+
+function loadElement(kind: MediaKind, url: string): Promise<HTMLMediaElement> {
+  return new Promise((resolve, reject) => {
+    const element = document.createElement(kind === 'VIDEO' ? 'video' : 'audio')
+    const timeoutId = setTimeout(() => reject(new MediaValidationError('mediaErrors.tooSlow')), PROBE_TIMEOUT)
+    element.preload = 'auto'
+    element.muted = true
+    if (element instanceof HTMLVideoElement) element.playsInline = true
+    // loadeddata means at least one frame decoded, not just the header parsed
+    element.onloadeddata = () => {
+      clearTimeout(timeoutId)
+      resolve(element)
+    }
+    element.onerror = () => {
+      clearTimeout(timeoutId)
+      reject(new MediaValidationError('mediaErrors.damaged'))
+    }
+    element.src = url
+  })
+}
+
+// MediaRecorder output often reports an Infinity duration until the element is
+// made to seek to the end
+function resolveDuration(element: HTMLMediaElement): Promise<number> {
+  if (isFinite(element.duration)) return Promise.resolve(element.duration)
+  return new Promise((resolve, reject) => {
+    const timeoutId = setTimeout(() => reject(new MediaValidationError('mediaErrors.noDuration')), PROBE_TIMEOUT)
+    element.ondurationchange = () => {
+      if (!isFinite(element.duration)) return
+      element.ondurationchange = null
+      // Wait for the seek back to the start, or a later seek (the poster
+      // frame) could finish first and be mistaken for it
+      element.onseeked = () => {
+        clearTimeout(timeoutId)
+        element.onseeked = null
+        resolve(element.duration)
+      }
+      element.currentTime = 0
+    }
+    element.currentTime = Number.MAX_SAFE_INTEGER
+  })
+}
+
+function capturePoster(video: HTMLVideoElement, duration: number): Promise<string | undefined> {
+  return new Promise(resolve => {
+    // A missing thumbnail shouldn't block the submission
+    const timeoutId = setTimeout(() => resolve(undefined), PROBE_TIMEOUT)
+    video.onseeked = () => {
+      clearTimeout(timeoutId)
+      video.onseeked = null
+      const scale = Math.min(1, POSTER_WIDTH / video.videoWidth)
+      const canvas = document.createElement('canvas')
+      canvas.width = Math.round(video.videoWidth * scale)
+      canvas.height = Math.round(video.videoHeight * scale)
+      const context = canvas.getContext('2d')
+      if (!context) return resolve(undefined)
+      context.drawImage(video, 0, 0, canvas.width, canvas.height)
+      resolve(canvas.toDataURL('image/jpeg', 0.7))
+    }
+    video.currentTime = Math.min(1, duration / 10)
+  })
+}
+
+/**
+ * Reads a media file in the browser before it is accepted: checks the container
+ * is one we support, that the browser can actually decode it, and that its
+ * length is within the configured limits. Rejects with a MediaValidationError
+ * whose message key explains the problem to the submitter.
+ */
+export async function probeMedia(file: File, kind: MediaKind, limits: { min: number; max: number }): Promise<MediaInfo> {
+  const { container, codecs } = await sniffFile(file)
+  if (!container || !SUPPORTED_CONTAINERS[kind].includes(container)) {
+    throw new MediaValidationError(kind === 'VIDEO' ? 'mediaErrors.unsupportedVideo' : 'mediaErrors.unsupportedAudio', {
+      formats: SUPPORTED_CONTAINERS[kind].slice(0, 4).join(', ').toUpperCase(),
+    })
+  }
+
+  const url = URL.createObjectURL(file)
+  try {
+    const element = await loadElement(kind, url)
+    const duration = await resolveDuration(element)
+    if (duration < limits.min) {
+      throw new MediaValidationError('mediaErrors.tooShort', { seconds: limits.min })
+    }
+    if (duration > limits.max) {
+      throw new MediaValidationError('mediaErrors.tooLong', { duration: formatDuration(limits.max) })
+    }
+
+    if (element instanceof HTMLVideoElement) {
+      if (!element.videoWidth || !element.videoHeight) {
+        throw new MediaValidationError('mediaErrors.noPicture')
+      }
+      return {
+        duration,
+        width: element.videoWidth,
+        height: element.videoHeight,
+        container,
+        codecs,
+        poster: await capturePoster(element, duration),
+      }
+    }
+
+    return { duration, container, codecs }
+  } finally {
+    URL.revokeObjectURL(url)
+  }
+}
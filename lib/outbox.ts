@@ -0,0 +1,87 @@
+import type { TestimonyInput } from '@/types'
+import { idbDelete, idbGetAll, idbPut, toStoredFile, type StoredFile } from './idb'
+
+// Background Sync tag handled by public/sw.js
+export const OUTBOX_SYNC_TAG = 'testimony-outbox'
+
+export interface OutboxItem {
+  id: string
+  data: TestimonyInput
+  file?: StoredFile
+  attachments?: StoredFile[]
+  idempotencyKey?: string
+  // Upload sessions the service worker has started, by position in
+  // [file, ...attachments], so an interrupted send resumes
+  uploads?: ({ uploadId: string; offset: number; chunkSize: number } | null)[]
+  createdAt: number
+}
+
+// What the service worker keeps of an item the server rejected
+export interface OutboxFailure {
+  id: string
+  failed: true
+  error?: string
+  createdAt: number
+}
+
+type SyncRegistration = ServiceWorkerRegistration & {
+  sync?: { register(tag: string): Promise<void> }
+}
+
+// Asks the service worker to send whatever is queued, through Background Sync
+// where supported and a direct message otherwise
+export async function requestOutboxSync(): Promise<void> {
+  if (!('serviceWorker' in navigator)) return
+  const registration = await navigator.serviceWorker.ready as SyncRegistration
+  if (registration.sync) {
+    try {
+      await registration.sync.register(OUTBOX_SYNC_TAG)
+      return
+    } catch {
+      // Sync permission denied - fall back to flushing now
+    }
+  }
+  registration.active?.postMessage({ type: 'FLUSH_OUTBOX' })
+}
+
+/**
+ * Stores a submission that couldn't reach the server so the service worker can
+ * send it once the device is back online. Throws if offline queueing isn't
+ * available in this browser, so callers can fall back to reporting the error.
+ */
+export async function queueSubmission(
+  data: TestimonyInput,
+  file?: File,
+  attachments: File[] = [],
+  idempotencyKey?: string
+): Promise<void> {
+  if (!('serviceWorker' in navigator) || !navigator.serviceWorker.controller) {
+    throw new Error('Offline submission is not supported in this browser')
+  }
+
+  const item: OutboxItem = {
+    id: crypto.randomUUID(),
+    data,
+    file: file ? toStoredFile(file) : undefined,
+    attachments: attachments.map(toStoredFile),
+    idempotencyKey,
+    createdAt: Date.now(),
+  }
+  await idbPut<OutboxItem>('outbox', item.id, item)
+  await requestOutboxSync()
+}
+
+export async function getOutboxState(): Promise<{ pending: number; failures: OutboxFailure[] }> {
+  try {
+    const items = await idbGetAll<OutboxItem | OutboxFailure>('outbox')
+    const failures = items.filter((item): item is OutboxFailure => 'failed' in item && item.failed)
+    return { pending: items.length - failures.length, failures }
+  } catch {
+    return { pending: 0, failures: [] }
+  }
+}
+
+// Drops rejected items once their reason has been shown
+export async function dismissOutboxFailures(failures: OutboxFailure[]): Promise<void> {
+  await Promise.all(failures.map((failure) => idbDelete('outbox', failure.id))).catch(() => {})
+}
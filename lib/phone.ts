@@ -0,0 +1,48 @@
+import {
+  AsYouType,
+  isSupportedCountry,
+  parsePhoneNumberFromString,
+  type CountryCode,
+  type PhoneNumber,
+} from 'libphonenumber-js/max'
+
+// Where to look a national number up: the country's ISO code when the
+// metadata knows it, otherwise just its calling code
+type PhoneRegion = CountryCode | { defaultCallingCode: string }
+
+export function getPhoneRegion(countryCode?: string, phoneCode?: string): PhoneRegion | null {
+  const iso = countryCode?.toUpperCase()
+  if (iso && isSupportedCountry(iso)) return iso
+  const callingCode = phoneCode?.replace(/\D/g, '')
+  return callingCode ? { defaultCallingCode: callingCode } : null
+}
+
+export function parsePhone(value: string, region: PhoneRegion | null): PhoneNumber | undefined {
+  if (!value.trim()) return undefined
+  return region ? parsePhoneNumberFromString(value, region) : parsePhoneNumberFromString(value)
+}
+
+// Full validation against the numbering plan, not just the length
+export function isValidPhone(value: string, region: PhoneRegion | null): boolean {
+  const phone = parsePhone(value, region)
+  return !!phone && phone.isValid()
+}
+
+export function toE164(value: string, region: PhoneRegion | null): string | null {
+  const phone = parsePhone(value, region)
+  return phone?.isValid() ? phone.number : null
+}
+
+export function formatPhoneAsYouType(value: string, region: PhoneRegion | null): string {
+  return new AsYouType(region ?? undefined).input(value)
+}
+
+// For numbers already stored: E.164 from newer submissions, or the separate
+// calling code and national number older ones were saved with
+export function formatStoredPhone(phone: string, phoneCountryCode?: string | null): string {
+  const parsed = phone.startsWith('+')
+    ? parsePhoneNumberFromString(phone)
+    : parsePhone(phone, getPhoneRegion(undefined, phoneCountryCode ?? undefined))
+  if (parsed) return parsed.formatInternational()
+  return [phoneCountryCode, phone].filter(Boolean).join(' ')
+}
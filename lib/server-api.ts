@@ -0,0 +1,49 @@
+import type { PaginatedResponse, PublicStats, PublicTestimony } from '@/types'
+import { buildPublicTestimoniesQuery, isPublishable, toPublicTestimony, type PublicTestimonyFilters } from './api'
+
+// Server components can't go through the /api rewrite in next.config.js, so
+// they call the backend directly
+export const SERVER_API_URL = process.env.API_URL || process.env.NEXT_PUBLIC_API_URL || 'https://api.abilliontestimoniesandmore.org'
+
+// Approved testimonies rarely change, so rendered pages can be reused for a while
+const REVALIDATE_SECONDS = 300
+
+export async function getPublicTestimony(id: string): Promise<PublicTestimony | null> {
+  const response = await fetch(`${SERVER_API_URL}/api/public/testimonies/${encodeURIComponent(id)}`, {
+    next: { revalidate: REVALIDATE_SECONDS },
+  })
+
+  // Unknown and not-yet-approved testimonies both come back as 404
+  if (response.status === 404) return null
+  if (!response.ok) {
+    throw new Error(`Failed to load testimony (${response.status})`)
+  }
+
+  const data: { testimony: PublicTestimony } = await response.json()
+  return isPublishable(data.testimony) ? toPublicTestimony(data.testimony) : null
+}
+
+export async function getPublicTestimonyList(params: PublicTestimonyFilters): Promise<PublicTestimony[]> {
+  const searchParams = buildPublicTestimoniesQuery(params)
+  const response = await fetch(`${SERVER_API_URL}/api/public/testimonies?${searchParams}`, {
+    next: { revalidate: REVALIDATE_SECONDS },
+  })
+  if (!response.ok) {
+    throw new Error(`Failed to load testimonies (${response.status})`)
+  }
+
+  const data: PaginatedResponse<PublicTestimony> = await response.json()
+  return data.testimonies.filter(isPublishable).map(toPublicTestimony)
+}
+
+export async function getPublicStats(): Promise<PublicStats> {
+  const response = await fetch(`${SERVER_API_URL}/api/public/stats`, {
+    next: { revalidate: 60 },
+  })
+  if (!response.ok) {
+    throw new Error(`Failed to load stats (${response.status})`)
+  }
+
+  const data: { stats: PublicStats } = await response.json()
+  return data.stats
+}
@@ -0,0 +1,276 @@
+import { CHALLENGE_HEADER, GATEWAY_PATH, UPLOAD_TOKEN_HEADER, getChallengeProvider } from './challenge'
+import { LocalizedError, NetworkError, networkFetch } from './errors'
+
+const STORAGE_KEY = 'abtm:uploads'
+const DEFAULT_CHUNK_SIZE = 5 * 1024 * 1024
+const CHUNK_TIMEOUT = 2 * 60 * 1000
+const MAX_CHUNK_RETRIES = 5
+// Sessions older than this are assumed to have been discarded by the server
+const SESSION_TTL = 24 * 60 * 60 * 1000
+
+export interface StoredUpload {
+  uploadId: string
+  // The gateway's signature for this session, needed for every chunk
+  uploadToken: string
+  fingerprint: string
+  fileName: string
+  size: number
+  offset: number
+  chunkSize: number
+  completed: boolean
+  updatedAt: number
+}
+
+export interface UploadOptions {
+  onProgress?: (uploaded: number, total: number) => void
+  signal?: AbortSignal
+}
+
+// Carries the server's own message when it sent one, otherwise the page
+// shows its generic one
+class UploadError extends Error {
+  constructor(public status?: number, message = '') {
+    super(message)
+    this.name = 'UploadError'
+  }
+}
+
+// Identifies the same file across page reloads without reading its contents
+export function getFileFingerprint(file: File): string {
+  return [file.name, file.size, file.type, file.lastModified].join(':')
+}
+
+const HASH_SAMPLE_SIZE = 2 * 1024 * 1024
+
+// SHA-256 (hex) of the file size followed by its first and last 2 MB, so the
+// same recording is recognised under any name without reading a whole video
+export async function getMediaHash(file: File): Promise<string> {
+  const parts: BlobPart[] = [String(file.size)]
+  if (file.size <= HASH_SAMPLE_SIZE * 2) {
+    parts.push(file)
+  } else {
+    parts.push(file.slice(0, HASH_SAMPLE_SIZE), file.slice(file.size - HASH_SAMPLE_SIZE))
+  }
+  const digest = await crypto.subtle.digest('SHA-256', await new Blob(parts).arrayBuffer())
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('')
+}
+
+function readStore(): Record<string, StoredUpload> {
+  if (typeof window === 'undefined') return {}
+  try {
+    const store = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}') as Record<string, StoredUpload>
+    const now = Date.now()
+    return Object.fromEntries(
+      Object.entries(store).filter(([, upload]) => now - upload.updatedAt < SESSION_TTL)
+    )
+  } catch {
+    return {}
+  }
+}
+
+function writeStore(store: Record<string, StoredUpload>) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(store))
+  } catch {
+    // Storage full or unavailable - the upload still works, it just can't resume
+  }
+}
+
+function saveUpload(upload: StoredUpload) {
+  const store = readStore()
+  store[upload.fingerprint] = { ...upload, updatedAt: Date.now() }
+  writeStore(store)
+}
+
+export function findUpload(file: File): StoredUpload | null {
+  return readStore()[getFileFingerprint(file)] || null
+}
+
+export function clearUpload(file: File) {
+  const store = readStore()
+  delete store[getFileFingerprint(file)]
+  writeStore(store)
+}
+
+// Most recent upload that was started but never finished, if any
+export function getInterruptedUpload(): StoredUpload | null {
+  const pending = Object.values(readStore()).filter(u => !u.completed && u.offset > 0)
+  return pending.sort((a, b) => b.updatedAt - a.updatedAt)[0] || null
+}
+
+async function uploadRequest<T>(endpoint: string, options: RequestInit = {}, signal?: AbortSignal): Promise<T> {
+  signal?.throwIfAborted()
+  const controller = new AbortController()
+  const timeoutId = setTimeout(() => controller.abort(), CHUNK_TIMEOUT)
+  const onAbort = () => controller.abort()
+  signal?.addEventListener('abort', onAbort, { once: true })
+
+  try {
+    const response = await networkFetch(`${GATEWAY_PATH}${endpoint}`, {
+      ...options,
+      signal: controller.signal,
+    })
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}))
+      throw new UploadError(response.status, error.error)
+    }
+
+    return response.json()
+  } finally {
+    clearTimeout(timeoutId)
+    signal?.removeEventListener('abort', onAbort)
+  }
+}
+
+async function createSession(file: File, signal?: AbortSignal): Promise<StoredUpload> {
+  const token = await getChallengeProvider().getToken('upload', signal)
+  const data = await uploadRequest<{ uploadId: string; uploadToken: string; chunkSize?: number }>('/uploads', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', [CHALLENGE_HEADER]: token },
+    body: JSON.stringify({ fileName: file.name, mimeType: file.type, size: file.size }),
+  }, signal)
+
+  const upload: StoredUpload = {
+    uploadId: data.uploadId,
+    uploadToken: data.uploadToken,
+    fingerprint: getFileFingerprint(file),
+    fileName: file.name,
+    size: file.size,
+    offset: 0,
+    chunkSize: data.chunkSize || DEFAULT_CHUNK_SIZE,
+    completed: false,
+    updatedAt: Date.now(),
+  }
+  saveUpload(upload)
+  return upload
+}
+
+async function getSessionOffset(upload: StoredUpload, signal?: AbortSignal): Promise<number> {
+  const data = await uploadRequest<{ offset: number }>(`/uploads/${upload.uploadId}`, {
+    headers: { [UPLOAD_TOKEN_HEADER]: upload.uploadToken },
+  }, signal)
+  return data.offset
+}
+
+// Chunks go up over XHR rather than fetch so bytes sent can be reported while
+// each request is still in flight
+function putChunk(upload: StoredUpload, file: File, options: UploadOptions): Promise<number> {
+  const start = upload.offset
+  const end = Math.min(start + upload.chunkSize, file.size)
+
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest()
+    const onAbort = () => xhr.abort()
+
+    xhr.open('PUT', `${GATEWAY_PATH}/uploads/${upload.uploadId}`)
+    xhr.timeout = CHUNK_TIMEOUT
+    xhr.setRequestHeader(UPLOAD_TOKEN_HEADER, upload.uploadToken)
+    xhr.setRequestHeader('Content-Type', 'application/octet-stream')
+    xhr.setRequestHeader('Content-Range', `bytes ${start}-${end - 1}/${file.size}`)
+
+    xhr.upload.onprogress = (e) => options.onProgress?.(start + e.loaded, file.size)
+    xhr.onload = () => {
+      let body: { offset?: number; error?: string } = {}
+      try {
+        body = JSON.parse(xhr.responseText)
+      } catch {
+        // Non-JSON error pages fall through to the status check
+      }
+      if (xhr.status >= 200 && xhr.status < 300 && typeof body.offset === 'number') {
+        resolve(body.offset)
+      } else {
+        reject(new UploadError(xhr.status, body.error))
+      }
+    }
+    xhr.onerror = () => reject(new NetworkError())
+    xhr.ontimeout = () => reject(new UploadError())
+    xhr.onabort = () => reject(new DOMException('Upload cancelled', 'AbortError'))
+    xhr.onloadend = () => options.signal?.removeEventListener('abort', onAbort)
+
+    options.signal?.addEventListener('abort', onAbort, { once: true })
+    xhr.send(file.slice(start, end))
+  })
+}
+
+function isRetryable(err: unknown): boolean {
+  if (err instanceof DOMException && err.name === 'AbortError') return false
+  if (err instanceof NetworkError) return true
+  if (!(err instanceof UploadError)) return false
+  return !err.status || err.status >= 500 || err.status === 408 || err.status === 429
+}
+
+function wait(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timeoutId)
+      reject(new DOMException('Upload cancelled', 'AbortError'))
+    }
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+/**
+ * Uploads a file in chunks to a server-side upload session and returns its id.
+ * Progress is persisted in localStorage, so selecting the same file again after
+ * a reload or dropped connection continues from the last confirmed byte.
+ * Aborting `options.signal` rejects with an AbortError and keeps the session
+ * so the upload can be resumed later.
+ */
+export async function uploadMedia(file: File, options: UploadOptions = {}): Promise<string> {
+  // There would be no byte range to send
+  if (file.size === 0) throw new LocalizedError('mediaErrors.empty')
+
+  let upload = findUpload(file)
+
+  if (upload && !upload.completed) {
+    try {
+      upload.offset = await getSessionOffset(upload, options.signal)
+    } catch (err) {
+      // The server no longer knows this session - start a fresh one
+      if (err instanceof UploadError && (err.status === 404 || err.status === 410)) {
+        upload = null
+      } else {
+        throw err
+      }
+    }
+  }
+
+  if (!upload) {
+    upload = await createSession(file, options.signal)
+  }
+
+  options.onProgress?.(upload.offset, file.size)
+
+  let retries = 0
+  while (!upload.completed) {
+    options.signal?.throwIfAborted()
+    try {
+      upload.offset = await putChunk(upload, file, options)
+      upload.completed = upload.offset >= file.size
+      retries = 0
+      saveUpload(upload)
+      options.onProgress?.(upload.offset, file.size)
+    } catch (err) {
+      if (err instanceof UploadError && err.status === 409) {
+        // Server and client disagree on the offset - trust the server
+        upload.offset = await getSessionOffset(upload, options.signal)
+        continue
+      }
+      if (!isRetryable(err)) throw err
+      if (retries >= MAX_CHUNK_RETRIES) {
+        throw err instanceof UploadError && err.status
+          ? new LocalizedError('errors.uploadInterrupted')
+          : new NetworkError('errors.uploadInterrupted')
+      }
+      retries++
+      await wait(1000 * 2 ** (retries - 1), options.signal)
+    }
+  }
+
+  return upload.uploadId
+}
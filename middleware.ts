@@ -0,0 +1,20 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { LOCALE_COOKIE, isLocale, matchLocale } from '@/lib/i18n/config'
+
+// First visit: remember the browser's preferred language so the client picks
+// it up. After that the cookie is only changed by the language switcher.
+export function middleware(request: NextRequest) {
+  const response = NextResponse.next()
+  if (isLocale(request.cookies.get(LOCALE_COOKIE)?.value)) return response
+
+  response.cookies.set(LOCALE_COOKIE, matchLocale(request.headers.get('accept-language')), {
+    path: '/',
+    maxAge: 60 * 60 * 24 * 365,
+    sameSite: 'lax',
+  })
+  return response
+}
+
+export const config = {
+  matcher: ['/((?!api|_next/static|_next/image|admin|embed|icon|sw.js|widget.js|manifest|favicon.ico).*)'],
+}
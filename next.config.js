@@ -1,3 +1,6 @@
+// Same as SERVER_API_URL in lib/server-api.ts
+const apiUrl = process.env.API_URL || process.env.NEXT_PUBLIC_API_URL || 'https://api.abilliontestimoniesandmore.org'
+
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   output: 'standalone',
@@ -10,11 +13,20 @@ const nextConfig = {
       },
     ],
   },
+  async headers() {
+    return [
+      {
+        // The testimony widget is meant to be framed by partner sites
+        source: '/embed',
+        headers: [{ key: 'Content-Security-Policy', value: 'frame-ancestors *' }],
+      },
+    ]
+  },
   async rewrites() {
     return [
       {
         source: '/api/:path*',
-        destination: 'http://api.abilliontestimoniesandmore.org/api/:path*',
+        destination: `${apiUrl}/api/:path*`,
       },
     ]
   },
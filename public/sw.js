@@ -0,0 +1,369 @@
+/* Service worker for the public submit flow.
+ *
+ * - Caches the submit wizard shell and Next.js static assets so /submit opens
+ *   offline, falling back to /offline for anything else not cached.
+ * - Serves the wizard's reference data (networks, zones, countries, ...) with
+ *   stale-while-revalidate.
+ * - Sends testimonies queued in the IndexedDB outbox (see lib/outbox.ts) once
+ *   the device is back online, via Background Sync or a FLUSH_OUTBOX message
+ *   from the page where Background Sync isn't available.
+ */
+
+const API_URL = new URL(self.location.href).searchParams.get('api') || ''
+
+// Must match lib/idb.ts
+const DB_NAME = 'abtm'
+const DB_VERSION = 2
+const OUTBOX_SYNC_TAG = 'testimony-outbox'
+
+// Bump to drop everything cached by a previous version
+const CACHE_VERSION = 'v1'
+const SHELL_CACHE = `shell-${CACHE_VERSION}`
+const STATIC_CACHE = `static-${CACHE_VERSION}`
+const DATA_CACHE = `data-${CACHE_VERSION}`
+
+// The queued success page is included so an offline submission can land on it
+const SHELL_URLS = [
+  '/submit',
+  '/submit/success?queued=1',
+  '/offline',
+  '/manifest.webmanifest',
+  '/icons/icon-192.png',
+  '/icons/icon-512.png',
+]
+const OFFLINE_URL = '/offline'
+
+// Public reference data the wizard loads on start
+const DATA_PATHS = [
+  '/api/networks',
+  '/api/external',
+  '/api/testimony-categories',
+  '/api/zones',
+  '/api/countries',
+  '/api/settings/upload-limits',
+]
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      // One missing page shouldn't stop the worker from installing
+      .then((cache) => Promise.all(SHELL_URLS.map((url) => cache.add(url).catch(() => {}))))
+      .then(() => self.skipWaiting())
+  )
+})
+
+self.addEventListener('activate', (event) => {
+  const current = [SHELL_CACHE, STATIC_CACHE, DATA_CACHE]
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((key) => !current.includes(key)).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  )
+})
+
+function isApiRequest(url) {
+  if (url.origin === self.location.origin) return true
+  return !!API_URL && url.origin === new URL(API_URL, self.location.origin).origin
+}
+
+// Network first so the wizard is always current when online; the cached copy
+// (or the offline page) only when the network fails
+async function handleNavigation(request) {
+  const cache = await caches.open(SHELL_CACHE)
+  const url = new URL(request.url)
+  try {
+    const response = await fetch(request)
+    if (response.ok && SHELL_URLS.includes(url.pathname + url.search)) {
+      cache.put(url.pathname + url.search, response.clone())
+    }
+    return response
+  } catch {
+    return (await cache.match(url.pathname + url.search)) ||
+      (await cache.match(url.pathname)) ||
+      (await cache.match(OFFLINE_URL)) ||
+      Response.error()
+  }
+}
+
+// Every deploy brings newly hashed assets under the same cache, so only the
+// most recent ones are kept. Cache keys come back oldest first.
+const STATIC_CACHE_LIMIT = 300
+
+async function trimCache(cache, limit) {
+  const keys = await cache.keys()
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - limit)).map((key) => cache.delete(key)))
+}
+
+// Hashed build assets never change, so the cache always wins
+async function handleStatic(request) {
+  const cache = await caches.open(STATIC_CACHE)
+  const cached = await cache.match(request)
+  if (cached) return cached
+  const response = await fetch(request)
+  if (response.ok) {
+    cache.put(request, response.clone())
+      .then(() => trimCache(cache, STATIC_CACHE_LIMIT))
+      .catch(() => {})
+  }
+  return response
+}
+
+async function handleData(event) {
+  const cache = await caches.open(DATA_CACHE)
+  const cached = await cache.match(event.request)
+  const network = fetch(event.request)
+    .then((response) => {
+      if (response.ok) cache.put(event.request, response.clone())
+      return response
+    })
+
+  if (cached) {
+    event.waitUntil(network.catch(() => {}))
+    return cached
+  }
+  return network
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event
+  if (request.method !== 'GET') return
+
+  const url = new URL(request.url)
+
+  if (request.mode === 'navigate' && url.origin === self.location.origin) {
+    event.respondWith(handleNavigation(request))
+  } else if (url.origin === self.location.origin && url.pathname.startsWith('/_next/static/')) {
+    event.respondWith(handleStatic(request))
+  } else if (isApiRequest(url) && DATA_PATHS.includes(url.pathname)) {
+    event.respondWith(handleData(event))
+  }
+})
+
+function openDb() {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      const db = request.result
+      if (!db.objectStoreNames.contains('drafts')) db.createObjectStore('drafts')
+      if (!db.objectStoreNames.contains('outbox')) db.createObjectStore('outbox')
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+async function withOutbox(mode, run) {
+  const db = await openDb()
+  try {
+    return await new Promise((resolve, reject) => {
+      const tx = db.transaction('outbox', mode)
+      const request = run(tx.objectStore('outbox'))
+      tx.oncomplete = () => resolve(request.result)
+      tx.onerror = () => reject(tx.error)
+      tx.onabort = () => reject(tx.error)
+    })
+  } finally {
+    db.close()
+  }
+}
+
+async function notifyClients(message) {
+  const clients = await self.clients.matchAll({ includeUncontrolled: true })
+  clients.forEach((client) => client.postMessage(message))
+}
+
+// Same proof of work as lib/challenge.ts; the other providers need a page to
+// show their widget, so queued testimonies can only be sent with this one
+function countLeadingZeroBits(bytes) {
+  let bits = 0
+  for (let i = 0; i < bytes.length; i++) {
+    if (bytes[i] !== 0) return bits + Math.clz32(bytes[i]) - 24
+    bits += 8
+  }
+  return bits
+}
+
+async function getChallengeToken(action) {
+  const response = await fetch(`/api/gateway/challenge?action=${action}`, { cache: 'no-store' })
+  if (!response.ok) throw new Error(`Challenge failed (${response.status})`)
+  const { challenge, difficulty } = await response.json()
+  const encoder = new TextEncoder()
+  for (let counter = 0; ; counter++) {
+    const token = `${challenge}.${counter}`
+    const digest = await crypto.subtle.digest('SHA-256', encoder.encode(token))
+    if (countLeadingZeroBits(new Uint8Array(digest)) >= difficulty) return token
+  }
+}
+
+// An error response from the API, as opposed to no response at all
+class ResponseError extends Error {
+  constructor(message, status) {
+    super(message)
+    this.status = status
+  }
+}
+
+// The server found the submission itself invalid; sending it again won't
+// help. Anything else, including a failed challenge or a rejected upload
+// token (403), is tried again later with fresh ones.
+const REJECTION_STATUSES = [400, 413, 422]
+
+function isRejection(error) {
+  return error instanceof ResponseError && REJECTION_STATUSES.includes(error.status)
+}
+
+async function gatewayRequest(path, init = {}) {
+  const response = await fetch(`/api/gateway${path}`, init)
+  const body = await response.json().catch(() => ({}))
+  if (!response.ok) throw new ResponseError(body.error || `Request failed (${response.status})`, response.status)
+  return body
+}
+
+const DEFAULT_CHUNK_SIZE = 5 * 1024 * 1024
+
+function saveItem(item) {
+  return withOutbox('readwrite', (store) => store.put(item, item.id))
+}
+
+function getSessionOffset(session) {
+  return gatewayRequest(`/uploads/${session.uploadId}`, { headers: { 'X-Upload-Token': session.uploadToken } })
+}
+
+// Same resumable session protocol as uploadMedia in lib/upload.ts. Progress
+// is saved on the outbox item, so a flush cut short resumes from the last
+// confirmed chunk next time.
+async function uploadStoredFile(item, index, stored) {
+  const size = stored.blob.size
+  let session = item.uploads[index]
+
+  if (session) {
+    try {
+      session.offset = (await getSessionOffset(session)).offset
+    } catch (error) {
+      // Gone, or its token no longer verifies - start a fresh session
+      if (!(error instanceof ResponseError) || ![403, 404, 410].includes(error.status)) throw error
+      session = null
+    }
+  }
+
+  if (!session) {
+    const data = await gatewayRequest('/uploads', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-Challenge': await getChallengeToken('upload') },
+      body: JSON.stringify({ fileName: stored.name, mimeType: stored.type, size }),
+    })
+    session = {
+      uploadId: data.uploadId,
+      uploadToken: data.uploadToken,
+      offset: 0,
+      chunkSize: data.chunkSize || DEFAULT_CHUNK_SIZE,
+    }
+  }
+
+  while (session.offset < size) {
+    const start = session.offset
+    const end = Math.min(start + session.chunkSize, size)
+    try {
+      session.offset = (await gatewayRequest(`/uploads/${session.uploadId}`, {
+        method: 'PUT',
+        headers: {
+          'X-Upload-Token': session.uploadToken,
+          'Content-Type': 'application/octet-stream',
+          'Content-Range': `bytes ${start}-${end - 1}/${size}`,
+        },
+        body: stored.blob.slice(start, end),
+      })).offset
+    } catch (error) {
+      // Server and client disagree on the offset - trust the server
+      if (!(error instanceof ResponseError) || error.status !== 409) throw error
+      session.offset = (await getSessionOffset(session)).offset
+    }
+    item.uploads[index] = session
+    await saveItem(item)
+  }
+
+  return session.uploadId
+}
+
+// Uploads the queued files, then sends the testimony referencing them, the
+// same payload submitTestimony sends online
+async function sendItem(item) {
+  item.uploads = item.uploads || []
+  const files = item.file ? [item.file, ...(item.attachments || [])] : item.attachments || []
+  const uploadIds = []
+  for (let i = 0; i < files.length; i++) {
+    uploadIds.push(await uploadStoredFile(item, i, files[i]))
+  }
+
+  const uploadId = item.file ? uploadIds.shift() : undefined
+  const attachmentUploadIds = uploadIds.length > 0 ? uploadIds : undefined
+
+  const formData = new FormData()
+  formData.append('data', JSON.stringify({ ...item.data, uploadId, attachmentUploadIds }))
+
+  // A challenge can fail verification (expired, or solved on a stale
+  // secret); one more try with a fresh one before leaving it for later
+  for (let attempt = 1; ; attempt++) {
+    const headers = { 'X-Challenge': await getChallengeToken('testimony') }
+    if (item.idempotencyKey) headers['Idempotency-Key'] = item.idempotencyKey
+
+    const response = await fetch('/api/gateway/testimonies', {
+      method: 'POST',
+      body: formData,
+      headers,
+    })
+    if (response.ok) return
+    if (response.status === 403 && attempt < 2) continue
+    const error = await response.json().catch(() => ({}))
+    throw new ResponseError(error.error || `Submission failed (${response.status})`, response.status)
+  }
+}
+
+let flushing = null
+
+async function flushOutbox() {
+  const items = await withOutbox('readonly', (store) => store.getAll())
+  let networkFailure = false
+
+  for (const item of items) {
+    if (item.failed) continue
+    try {
+      await sendItem(item)
+      await withOutbox('readwrite', (store) => store.delete(item.id))
+      await notifyClients({ type: 'OUTBOX_SENT', id: item.id })
+    } catch (error) {
+      if (!isRejection(error)) {
+        networkFailure = true
+        break
+      }
+      // Only the reason is kept, for the success page to show; the files and
+      // personal details go
+      await saveItem({ id: item.id, failed: true, error: error.message, createdAt: item.createdAt })
+      await notifyClients({ type: 'OUTBOX_FAILED', id: item.id, error: error.message })
+    }
+  }
+
+  // Rejecting tells Background Sync to try again later
+  if (networkFailure) throw new Error('Outbox flush incomplete')
+}
+
+function flushOnce() {
+  if (!flushing) {
+    flushing = flushOutbox().finally(() => {
+      flushing = null
+    })
+  }
+  return flushing
+}
+
+self.addEventListener('sync', (event) => {
+  if (event.tag === OUTBOX_SYNC_TAG) {
+    event.waitUntil(flushOnce())
+  }
+})
+
+self.addEventListener('message', (event) => {
+  if (event.data && event.data.type === 'FLUSH_OUTBOX') {
+    event.waitUntil(flushOnce().catch(() => {}))
+  }
+})
@@ -0,0 +1,72 @@
+/* A Billion Testimonies widget for partner sites.
+ *
+ *   <div data-abtm-widget data-network-id="..." data-theme="dark"></div>
+ *   <script src="https://<this site>/widget.js" async></script>
+ *
+ * Each element becomes an iframe of /embed, so the host page's CSS can't reach
+ * it. Supported attributes: data-network-id, data-external-category-id,
+ * data-zone-id, data-theme (light|dark), data-accent (hex), data-interval
+ * (seconds, 0 to stop rotating), data-limit, data-width and data-height
+ * (any CSS length; the height follows the content unless set).
+ */
+(function () {
+  // Must match lib/embed.ts
+  var RESIZE_MESSAGE = 'abtm:embed-resize'
+  var PARAMS = {
+    networkId: 'networkId',
+    externalCategoryId: 'externalCategoryId',
+    zoneId: 'zoneId',
+    theme: 'theme',
+    accent: 'accent',
+    interval: 'interval',
+    limit: 'limit',
+  }
+
+  var script = document.currentScript
+  var origin = script ? new URL(script.src).origin : ''
+  var frames = []
+
+  function mount(element) {
+    if (element.getAttribute('data-abtm-loaded')) return
+    element.setAttribute('data-abtm-loaded', 'true')
+
+    var query = new URLSearchParams()
+    Object.keys(PARAMS).forEach(function (key) {
+      var value = element.dataset[key]
+      if (value) query.set(PARAMS[key], value)
+    })
+
+    var iframe = document.createElement('iframe')
+    iframe.src = origin + '/embed?' + query.toString()
+    iframe.title = 'Testimonies'
+    iframe.loading = 'lazy'
+    iframe.style.border = '0'
+    iframe.style.display = 'block'
+    iframe.style.width = element.dataset.width || '100%'
+    iframe.style.height = element.dataset.height || '320px'
+    element.appendChild(iframe)
+    frames.push({ iframe: iframe, autoHeight: !element.dataset.height })
+  }
+
+  function init() {
+    document.querySelectorAll('[data-abtm-widget]').forEach(mount)
+  }
+
+  window.addEventListener('message', function (event) {
+    if (event.origin !== origin || !event.data || event.data.type !== RESIZE_MESSAGE) return
+    frames.forEach(function (frame) {
+      if (frame.autoHeight && frame.iframe.contentWindow === event.source) {
+        frame.iframe.style.height = event.data.height + 'px'
+      }
+    })
+  })
+
+  // For pages that add widget elements after load
+  window.ABTMWidget = { init: init }
+
+  if (document.readyState === 'loading') {
+    document.addEventListener('DOMContentLoaded', init)
+  } else {
+    init()
+  }
+})()
@@ -1,6 +1,8 @@
 export type CategoryType = 'NETWORK' | 'EXTERNAL' | 'REGION'
 export type ContentType = 'TEXT' | 'VIDEO' | 'AUDIO'
 export type TestimonyStatus = 'PENDING' | 'APPROVED' | 'REJECTED'
+// How the submitter agreed their testimony may be shared
+export type PublicationConsent = 'PUBLIC' | 'ANONYMOUS' | 'INTERNAL'
 
 export interface Admin {
   id: string
@@ -33,6 +35,21 @@ export interface TestimonyCategory {
   updatedAt: string
 }
 
+// Canned reason moderators pick from when rejecting a testimony
+export interface RejectionReason {
+  id: string
+  label: string
+  isActive: boolean
+  createdAt: string
+  updatedAt: string
+}
+
+// Why a testimony was rejected: a canned reason, free text, or both
+export interface RejectionInput {
+  rejectionReasonId?: string
+  rejectionNote?: string
+}
+
 export interface Region {
   id: string
   name: string
@@ -60,6 +77,23 @@ export interface Country {
   phoneCode: string
 }
 
+export interface Attachment {
+  id: string
+  url: string
+  fileName: string
+  mimeType: string
+  size: number
+  createdAt: string
+}
+
+// Moderators' internal note on a testimony; never shown publicly
+export interface TestimonyNote {
+  id: string
+  body: string
+  author: { id: string; name: string }
+  createdAt: string
+}
+
 export interface Testimony {
   id: string
   testimonyCategoryId: string
@@ -90,12 +124,41 @@ export interface Testimony {
   mediaUrl: string | null
   mediaMimeType: string | null
   mediaSize: number | null
+  // Supporting documents and photos; only included on the detail endpoint
+  attachments?: Attachment[]
+  // Also only on the detail endpoint, oldest first
+  notes?: TestimonyNote[]
+  // Set when the testimony was rejected
+  rejectionReason?: { id: string; label: string } | null
+  rejectionNote?: string | null
+  // Earlier testimony from the same email or phone with similar text or the same media
+  duplicateOfId?: string | null
+  // Null on testimonies submitted before consent was asked for
+  publicationConsent: PublicationConsent | null
+  contactConsent: boolean | null
+  privacyAcceptedAt: string | null
   status: TestimonyStatus
   viewCount: number
   createdAt: string
   updatedAt: string
 }
 
+// What the public wall may show of an approved testimony - never contact details
+export interface PublicTestimony {
+  id: string
+  // Null when the submitter asked to stay anonymous
+  name: string | null
+  testimonyCategory: { id: string; name: string }
+  network: { id: string; name: string } | null
+  country: { id: string; name: string; code: string } | null
+  contentType: ContentType
+  textContent: string | null
+  mediaUrl: string | null
+  mediaMimeType: string | null
+  viewCount: number
+  createdAt: string
+}
+
 export interface TestimonyInput {
   testimonyCategoryId: string
   categoryType: CategoryType
@@ -116,6 +179,29 @@ export interface TestimonyInput {
   kingschatUsername?: string
   contentType: ContentType
   textContent?: string
+  uploadId?: string
+  attachmentUploadIds?: string[]
+  // Language the submitter used the form in, e.g. 'pt'
+  locale?: string
+  // See getMediaHash in lib/upload.ts
+  mediaHash?: string
+  publicationConsent: PublicationConsent
+  contactConsent: boolean
+  privacyAccepted: boolean
+}
+
+export interface DuplicateCheckInput {
+  email: string
+  phone: string
+  textContent?: string
+  mediaHash?: string
+}
+
+export interface DuplicateMatch {
+  id: string
+  createdAt: string
+  status: TestimonyStatus
+  reason: 'TEXT' | 'MEDIA'
 }
 
 export interface PaginatedResponse<T> {
@@ -128,6 +214,57 @@ export interface PaginatedResponse<T> {
   }
 }
 
+// Admin changes the audit log records, named `${target}.${verb}`
+export type AuditAction =
+  | 'testimony.approve'
+  | 'testimony.reject'
+  | 'testimony.recategorise'
+  | 'testimony.delete'
+  | 'testimony.note'
+  | 'network.create'
+  | 'network.update'
+  | 'network.delete'
+  | 'external-category.create'
+  | 'external-category.update'
+  | 'external-category.delete'
+  | 'testimony-category.create'
+  | 'testimony-category.update'
+  | 'testimony-category.delete'
+  | 'rejection-reason.create'
+  | 'rejection-reason.update'
+  | 'rejection-reason.delete'
+  | 'settings.update'
+  | 'profile.update'
+  | 'profile.password'
+
+export type AuditTargetType =
+  | 'TESTIMONY'
+  | 'NETWORK'
+  | 'EXTERNAL_CATEGORY'
+  | 'TESTIMONY_CATEGORY'
+  | 'REJECTION_REASON'
+  | 'SETTINGS'
+  | 'ADMIN'
+
+export interface AuditEntry {
+  id: string
+  // Null once the admin account has been deleted
+  admin: { id: string; name: string; email: string } | null
+  action: AuditAction
+  targetType: AuditTargetType
+  targetId: string | null
+  // Fields that changed, with their values before and after
+  changes: Record<string, { before: unknown; after: unknown }> | null
+  createdAt: string
+}
+
+// Outcome for one testimony in a bulk moderation request
+export interface BulkResult {
+  id: string
+  success: boolean
+  error?: string
+}
+
 export interface Stats {
   total: number
   byStatus: {
@@ -160,6 +297,13 @@ export interface RecentTestimony {
   testimonyCategory?: { name: string }
 }
 
+// Aggregate counters shown on the public landing page
+export interface PublicStats {
+  total: number
+  thisWeek: number
+  countries: number
+}
+
 export interface StatsResponse {
   stats: Stats
   recentTestimonies: RecentTestimony[]
@@ -175,6 +319,11 @@ export interface StorageSettings {
   totalStorageLimit: number
   maxVideoFileSize: number
   maxAudioFileSize: number
+  maxAttachmentFileSize: number
+  // Recording lengths, in seconds
+  minMediaDuration: number
+  maxVideoDuration: number
+  maxAudioDuration: number
 }
 
 export interface StorageStats {
@@ -189,6 +338,22 @@ export interface StorageStats {
     count: number
     size: number
   }
+  attachments: {
+    count: number
+    size: number
+  }
+}
+
+// Public subset of StorageSettings/StorageStats the submit form validates against
+export interface UploadLimits {
+  maxVideoFileSize: number
+  maxAudioFileSize: number
+  maxAttachmentFileSize: number
+  // Recording lengths, in seconds
+  minMediaDuration: number
+  maxVideoDuration: number
+  maxAudioDuration: number
+  usagePercent: number
 }
 
 export interface StorageSettingsResponse {